@@ -0,0 +1,7 @@
+import MainLayout from '../../components/layouts/mainlayout';
+import { useSession } from '../../store/sessionStore';
+
+export default function TabsLayout() {
+  const { signOut } = useSession();
+  return <MainLayout onLogout={signOut} />;
+}
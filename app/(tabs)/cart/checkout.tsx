@@ -0,0 +1,19 @@
+import { useRouter } from 'expo-router';
+import CheckoutPage from '../../../pages/Checkout';
+
+export default function CheckoutRoute() {
+  const router = useRouter();
+
+  // Leave the finished checkout off the cart stack before switching tabs.
+  const leaveTo = (href: '/shop' | '/profile') => {
+    router.dismissAll();
+    router.navigate(href);
+  };
+
+  return (
+    <CheckoutPage
+      onContinueShopping={() => leaveTo('/shop')}
+      onViewOrders={() => leaveTo('/profile')}
+    />
+  );
+}
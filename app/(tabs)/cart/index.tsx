@@ -0,0 +1,7 @@
+import { useRouter } from 'expo-router';
+import CartPage from '../../../pages/Cart';
+
+export default function CartRoute() {
+  const router = useRouter();
+  return <CartPage onCheckout={() => router.push('/cart/checkout')} />;
+}
@@ -0,0 +1,7 @@
+import { useRouter } from 'expo-router';
+import HomePage from '../../pages/Home';
+
+export default function HomeRoute() {
+  const router = useRouter();
+  return <HomePage onBrowsePress={() => router.navigate('/shop')} />;
+}
@@ -0,0 +1,12 @@
+import { useRouter } from 'expo-router';
+import ProfilePage from '../../../pages/Profile';
+
+export default function ProfileRoute() {
+  const router = useRouter();
+  return (
+    <ProfilePage
+      onOpenOrder={(orderId) => router.push(`/profile/orders/${encodeURIComponent(orderId)}`)}
+      onViewCart={() => router.navigate('/cart')}
+    />
+  );
+}
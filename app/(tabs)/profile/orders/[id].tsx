@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
+import OrderDetailPage from '../../../../pages/OrderDetail';
+
+export default function OrderRoute() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <OrderDetailPage orderId={id ?? ''} />;
+}
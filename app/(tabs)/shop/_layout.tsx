@@ -0,0 +1,17 @@
+import { Stack } from 'expo-router';
+
+// Deep links into the stack still get the tab's root screen underneath.
+export const unstable_settings = {
+  initialRouteName: 'index',
+};
+
+export default function ShopLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: 'transparent' },
+      }}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import { useRouter } from 'expo-router';
+import ShopPage from '../../../pages/Shop';
+
+export default function ShopRoute() {
+  const router = useRouter();
+  return (
+    <ShopPage
+      onOpenProduct={(productKey) => router.push(`/shop/product/${encodeURIComponent(productKey)}`)}
+    />
+  );
+}
@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
+import ProductDetailPage from '../../../../pages/ProductDetail';
+
+export default function ProductRoute() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <ProductDetailPage productKey={id ?? ''} />;
+}
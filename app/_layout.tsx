@@ -0,0 +1,87 @@
+import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { ActivityIndicator, Image, StyleSheet, View } from 'react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Stack } from 'expo-router';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
+import { useSession, useSessionStore } from '../store/sessionStore';
+import { startCartSync } from '../store/cartSync';
+import { startFavoritesSync } from '../store/favoritesSync';
+import { PERSIST_MAX_AGE, queryClient, queryPersister } from '../services/queryClient';
+
+export default function RootLayout() {
+  const { isHydrating, isAuthenticated } = useSession();
+
+  useEffect(() => {
+    useSessionStore.getState().hydrate();
+  }, []);
+
+  useEffect(() => startFavoritesSync(), []);
+  useEffect(() => startCartSync(), []);
+
+  return (
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{ persister: queryPersister, maxAge: PERSIST_MAX_AGE }}
+    >
+      <SafeAreaProvider>
+        <View style={styles.root}>
+          <LinearGradient
+            colors={['#24243e', '#302b63', '#0f0c29']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 0 }}
+            style={StyleSheet.absoluteFill}
+          />
+
+          {isHydrating ? (
+            <View style={styles.splash}>
+              <Image
+                source={require('../assets/logo-white.png')}
+                style={styles.splashLogo}
+                resizeMode="contain"
+              />
+              <ActivityIndicator color="#ffffff" />
+            </View>
+          ) : (
+            <Stack
+              screenOptions={{
+                headerShown: false,
+                contentStyle: { backgroundColor: 'transparent' },
+              }}
+            >
+              <Stack.Protected guard={isAuthenticated}>
+                <Stack.Screen name="(tabs)" />
+                <Stack.Screen name="product/[id]" />
+                <Stack.Screen name="orders/[id]" />
+                <Stack.Screen name="payments/callback" options={{ animation: 'none' }} />
+              </Stack.Protected>
+              <Stack.Protected guard={!isAuthenticated}>
+                <Stack.Screen name="sign-in" />
+              </Stack.Protected>
+            </Stack>
+          )}
+        </View>
+
+        <StatusBar style="light" />
+      </SafeAreaProvider>
+    </PersistQueryClientProvider>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  splash: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  splashLogo: {
+    width: 72,
+    height: 72,
+    tintColor: '#FFFFFF',
+  },
+});
@@ -0,0 +1,8 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+// aquakart://orders/<id>, e.g. from a delivery notification, opens the order
+// inside the Profile tab with the order history underneath.
+export default function OrderLinkRoute() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <Redirect href={`/profile/orders/${encodeURIComponent(id ?? '')}`} />;
+}
@@ -0,0 +1,16 @@
+import { Redirect, useRouter } from 'expo-router';
+import { useEffect } from 'react';
+
+// aquakart://payments/callback is the gateway handing control back. The
+// provider waiting on the payment reads the URL itself; this screen only has
+// to get out of the way of the checkout underneath.
+export default function PaymentCallbackRoute() {
+  const router = useRouter();
+  const canGoBack = router.canGoBack();
+
+  useEffect(() => {
+    if (canGoBack) router.back();
+  }, [canGoBack, router]);
+
+  return canGoBack ? null : <Redirect href="/" />;
+}
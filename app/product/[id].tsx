@@ -0,0 +1,8 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+// aquakart://product/<key> opens the product inside the Shop tab, with the grid
+// underneath so back still has somewhere to go.
+export default function ProductLinkRoute() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <Redirect href={`/shop/product/${encodeURIComponent(id ?? '')}`} />;
+}
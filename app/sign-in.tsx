@@ -0,0 +1,7 @@
+import AuthPage from '../pages/Auth';
+import { useSession } from '../store/sessionStore';
+
+export default function SignInRoute() {
+  const { signIn } = useSession();
+  return <AuthPage onLoginSuccess={signIn} />;
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import * as Haptics from 'expo-haptics';
+import { useApplyCouponMutation } from '../../hooks/useCartPricing';
+import { getCouponErrorMessage } from '../../services/coupons';
+import { useCartStore } from '../../store/cartStore';
+import { AppliedCoupon } from '../../utils/pricing';
+import { triggerNotificationHaptic, triggerSelectionHaptic } from '../../utils/haptics';
+
+type CouponFieldProps = {
+  appliedCode: string | null;
+  coupon: AppliedCoupon | null;
+  // Why the attached code isn't taking effect: a server rejection or a local rule.
+  issue: string | null;
+  isValidating: boolean;
+};
+
+export default function CouponField({ appliedCode, coupon, issue, isValidating }: CouponFieldProps) {
+  const [input, setInput] = useState('');
+  const applyCoupon = useApplyCouponMutation();
+
+  const handleApply = () => {
+    if (!input.trim() || applyCoupon.isPending) return;
+    applyCoupon.mutate(input, {
+      onSuccess: () => {
+        setInput('');
+        triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
+      },
+      onError: () => triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error),
+    });
+  };
+
+  const handleRemove = () => {
+    triggerSelectionHaptic();
+    applyCoupon.reset();
+    useCartStore.getState().setCouponCode(null);
+  };
+
+  if (appliedCode) {
+    return (
+      <BlurView intensity={20} tint="dark" style={styles.card}>
+        <View style={styles.appliedRow}>
+          <Ionicons
+            name={coupon ? 'pricetag' : 'pricetag-outline'}
+            size={18}
+            color={coupon ? '#86efac' : '#fcd34d'}
+          />
+          <View style={styles.appliedBody}>
+            <Text style={styles.appliedCode}>{appliedCode}</Text>
+            {coupon ? (
+              <Text style={styles.appliedLabel}>{coupon.label} applied</Text>
+            ) : (
+              !isValidating && issue && <Text style={styles.issueText}>{issue}</Text>
+            )}
+          </View>
+          {isValidating && <ActivityIndicator size="small" color="#ffffff" />}
+          <TouchableOpacity
+            onPress={handleRemove}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove coupon ${appliedCode}`}
+          >
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </BlurView>
+    );
+  }
+
+  return (
+    <BlurView intensity={20} tint="dark" style={styles.card}>
+      <View style={styles.inputRow}>
+        <TextInput
+          value={input}
+          onChangeText={(text) => {
+            setInput(text);
+            if (applyCoupon.isError) applyCoupon.reset();
+          }}
+          placeholder="Coupon or promo code"
+          placeholderTextColor="rgba(255,255,255,0.45)"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          returnKeyType="done"
+          onSubmitEditing={handleApply}
+          style={styles.input}
+          accessibilityLabel="Coupon code"
+        />
+        <TouchableOpacity
+          onPress={handleApply}
+          disabled={!input.trim() || applyCoupon.isPending}
+          style={[styles.applyButton, !input.trim() && styles.applyButtonDisabled]}
+          accessibilityRole="button"
+        >
+          {applyCoupon.isPending ? (
+            <ActivityIndicator size="small" color="#0C2B4E" />
+          ) : (
+            <Text style={styles.applyText}>Apply</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      {applyCoupon.isError && (
+        <Text style={styles.errorText}>{getCouponErrorMessage(applyCoupon.error)}</Text>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 12,
+    gap: 8,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  applyButton: {
+    minWidth: 76,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: '#e0f2fe',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#fca5a5',
+  },
+  appliedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  appliedBody: {
+    flex: 1,
+    gap: 2,
+  },
+  appliedCode: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+    letterSpacing: 1,
+  },
+  appliedLabel: {
+    fontSize: 13,
+    color: '#86efac',
+  },
+  issueText: {
+    fontSize: 13,
+    color: '#fcd34d',
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fca5a5',
+  },
+});
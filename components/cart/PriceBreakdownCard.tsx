@@ -0,0 +1,148 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { PriceBreakdown, formatGstRate, formatPaise } from '../../utils/pricing';
+import { getProductTitle } from '../../utils/products';
+
+type PriceBreakdownCardProps = {
+  breakdown: PriceBreakdown;
+  // Itemise each line above the totals, as on the checkout summary.
+  showLines?: boolean;
+};
+
+export default function PriceBreakdownCard({ breakdown, showLines = false }: PriceBreakdownCardProps) {
+  return (
+    <BlurView intensity={20} tint="dark" style={styles.card}>
+      {showLines && (
+        <>
+          {breakdown.lines.map((line, index) => (
+            <View key={line.key} style={styles.row}>
+              <Text style={styles.lineTitle} numberOfLines={1}>
+                {line.quantity} × {getProductTitle(line.product, index)}
+              </Text>
+              <Text style={styles.lineValue}>
+                {line.unitPricePaise === null ? '—' : formatPaise(line.subtotalPaise)}
+              </Text>
+            </View>
+          ))}
+          <View style={styles.divider} />
+        </>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Subtotal</Text>
+        <Text style={styles.value}>{formatPaise(breakdown.subtotalPaise)}</Text>
+      </View>
+      {breakdown.coupon && breakdown.discountPaise > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Coupon {breakdown.coupon.code}</Text>
+          <Text style={[styles.value, styles.discountValue]}>
+            {formatPaise(-breakdown.discountPaise)}
+          </Text>
+        </View>
+      )}
+      {breakdown.taxes.map((tax) => (
+        <View key={tax.gstRateBps} style={styles.row}>
+          <Text style={styles.label}>Incl. GST @ {formatGstRate(tax.gstRateBps)}</Text>
+          <Text style={styles.value}>{formatPaise(tax.taxPaise)}</Text>
+        </View>
+      ))}
+      {breakdown.depositPaise > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Can deposit (refundable)</Text>
+          <Text style={styles.value}>{formatPaise(breakdown.depositPaise)}</Text>
+        </View>
+      )}
+      <View style={styles.row}>
+        <Text style={styles.label}>Delivery</Text>
+        <Text style={styles.value}>
+          {breakdown.coupon?.waivesDelivery
+            ? `Free (${breakdown.coupon.code})`
+            : breakdown.deliveryFeePaise === 0
+              ? 'Free'
+              : formatPaise(breakdown.deliveryFeePaise)}
+        </Text>
+      </View>
+      {breakdown.roundOffPaise !== 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Round off</Text>
+          <Text style={styles.value}>{formatPaise(breakdown.roundOffPaise)}</Text>
+        </View>
+      )}
+
+      <View style={styles.divider} />
+
+      <View style={styles.row}>
+        <Text style={styles.totalLabel}>Total</Text>
+        <Text style={styles.totalValue}>{formatPaise(breakdown.totalPaise)}</Text>
+      </View>
+      {breakdown.freeDeliveryShortfallPaise > 0 && (
+        <Text style={styles.hint}>
+          Add {formatPaise(breakdown.freeDeliveryShortfallPaise)} more for free delivery.
+        </Text>
+      )}
+      {breakdown.unpricedCount > 0 && (
+        <Text style={styles.hint}>
+          {breakdown.unpricedCount} item{breakdown.unpricedCount > 1 ? 's have' : ' has'} no listed
+          price and will be confirmed by our team.
+        </Text>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  lineTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  lineValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  label: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  discountValue: {
+    color: '#86efac',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  hint: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+  },
+});
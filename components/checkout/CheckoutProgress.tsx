@@ -0,0 +1,77 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type CheckoutProgressProps = {
+  steps: string[];
+  currentIndex: number;
+};
+
+export default function CheckoutProgress({ steps, currentIndex }: CheckoutProgressProps) {
+  return (
+    <View style={styles.row}>
+      {steps.map((label, index) => {
+        const done = index < currentIndex;
+        const active = index === currentIndex;
+        return (
+          <View key={label} style={styles.step}>
+            <View style={[styles.dot, done && styles.dotDone, active && styles.dotActive]}>
+              {done ? (
+                <Ionicons name="checkmark" size={12} color="#0C2B4E" />
+              ) : (
+                <Text style={[styles.dotText, active && styles.dotTextActive]}>{index + 1}</Text>
+              )}
+            </View>
+            <Text style={[styles.label, (done || active) && styles.labelActive]} numberOfLines={1}>
+              {label}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  step: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  dotActive: {
+    borderColor: '#38bdf8',
+    backgroundColor: 'rgba(56,189,248,0.2)',
+  },
+  dotDone: {
+    borderColor: '#e0f2fe',
+    backgroundColor: '#e0f2fe',
+  },
+  dotText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.6)',
+  },
+  dotTextActive: {
+    color: '#ffffff',
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.5)',
+  },
+  labelActive: {
+    color: '#ffffff',
+  },
+});
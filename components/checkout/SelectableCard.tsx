@@ -0,0 +1,88 @@
+import { ReactNode } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+
+type SelectableCardProps = {
+  title: string;
+  lines?: string[];
+  selected: boolean;
+  onPress: () => void;
+  icon?: keyof typeof Ionicons.glyphMap;
+  badge?: ReactNode;
+};
+
+export default function SelectableCard({
+  title,
+  lines = [],
+  selected,
+  onPress,
+  icon,
+  badge,
+}: SelectableCardProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.card, selected && styles.cardSelected]}
+      onPress={() => {
+        triggerSelectionHaptic();
+        onPress();
+      }}
+      activeOpacity={0.85}
+      accessibilityRole="radio"
+      accessibilityState={{ checked: selected }}
+    >
+      {icon && <Ionicons name={icon} size={20} color={selected ? '#38bdf8' : 'rgba(255,255,255,0.7)'} />}
+      <View style={styles.body}>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>{title}</Text>
+          {badge}
+        </View>
+        {lines.map((line) => (
+          <Text key={line} style={styles.line}>
+            {line}
+          </Text>
+        ))}
+      </View>
+      <Ionicons
+        name={selected ? 'radio-button-on' : 'radio-button-off'}
+        size={20}
+        color={selected ? '#38bdf8' : 'rgba(255,255,255,0.4)'}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  cardSelected: {
+    borderColor: '#38bdf8',
+    backgroundColor: 'rgba(56,189,248,0.1)',
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  line: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.7)',
+  },
+});
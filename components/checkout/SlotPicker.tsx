@@ -0,0 +1,100 @@
+import { useMemo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+import { DeliverySlot } from '../../utils/checkout';
+
+type SlotPickerProps = {
+  slots: DeliverySlot[];
+  selectedId: string | null;
+  onSelect: (slot: DeliverySlot) => void;
+};
+
+export default function SlotPicker({ slots, selectedId, onSelect }: SlotPickerProps) {
+  const days = useMemo(() => {
+    const grouped = new Map<string, DeliverySlot[]>();
+    for (const slot of slots) {
+      grouped.set(slot.dayLabel, [...(grouped.get(slot.dayLabel) ?? []), slot]);
+    }
+    return Array.from(grouped);
+  }, [slots]);
+
+  if (slots.length === 0) {
+    return <Text style={styles.empty}>No delivery slots are available right now.</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {days.map(([dayLabel, daySlots]) => (
+        <View key={dayLabel} style={styles.day}>
+          <Text style={styles.dayLabel}>{dayLabel}</Text>
+          <View style={styles.chipRow}>
+            {daySlots.map((slot) => {
+              const selected = slot.id === selectedId;
+              return (
+                <TouchableOpacity
+                  key={slot.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => {
+                    triggerSelectionHaptic();
+                    onSelect(slot);
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {slot.window}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 18,
+  },
+  day: {
+    gap: 10,
+  },
+  dayLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.7)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  chipSelected: {
+    backgroundColor: '#e0f2fe',
+    borderColor: '#e0f2fe',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  chipTextSelected: {
+    color: '#0C2B4E',
+  },
+  empty: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+  },
+});
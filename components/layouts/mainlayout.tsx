@@ -1,46 +1,55 @@
-import { useState } from 'react';
 import { useSafeAreaInsets, SafeAreaView } from 'react-native-safe-area-context';
-import { View, Text, TouchableOpacity } from 'react-native';
+import { View, Text } from 'react-native';
 
-import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
-import { BlurView } from 'expo-blur';
-import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { Tabs, usePathname, useRouter } from 'expo-router';
 
 import { selectCartCount, useCartStore } from '../../store/cartStore';
 import { selectFavoriteCount, useFavoritesStore } from '../../store/favoritesStore';
-import { triggerHaptic } from '../../utils/haptics';
 
 import { TabKey } from '../types/layout';
 import AquaHeader from './header';
 import AquaFooter from './footer';
+import { layoutStyles as styles } from './styles';
 
-import HomePage from '../../pages/Home';
-import ShopPage from '../../pages/Shop';
-import FavoritesPage from '../../pages/Favorites';
-import CartPage from '../../pages/Cart';
-import ProfilePage from '../../pages/Profile';
-
-type TabConfig = {
-    key: TabKey;
-    label: string;
-    icon: keyof typeof Ionicons.glyphMap;
-    activeIcon: keyof typeof Ionicons.glyphMap;
+// Route name of each tab under app/(tabs).
+const TAB_ROUTES: Record<TabKey, string> = {
+    home: 'index',
+    shop: 'shop',
+    favorites: 'favorites',
+    cart: 'cart',
+    profile: 'profile',
 };
 
-const TABS: TabConfig[] = [
-    { key: 'home', label: 'Home', icon: 'home-outline', activeIcon: 'home' },
-    { key: 'shop', label: 'Shop', icon: 'pricetags-outline', activeIcon: 'pricetags' },
-    { key: 'favorites', label: 'Favorites', icon: 'heart-outline', activeIcon: 'heart' },
-    { key: 'cart', label: 'Cart', icon: 'cart-outline', activeIcon: 'cart' },
-    { key: 'profile', label: 'Profile', icon: 'person-outline', activeIcon: 'person' },
-];
+const toTabKey = (routeName: string): TabKey =>
+    (Object.keys(TAB_ROUTES) as TabKey[]).find((key) => TAB_ROUTES[key] === routeName) ?? 'home';
+
+// Header title for the current path; null shows the logo instead.
+const getHeaderTitle = (pathname: string): string | null => {
+    if (pathname.startsWith('/shop/product/')) return 'Product';
+    if (pathname.startsWith('/shop')) return 'Shop';
+    if (pathname.startsWith('/cart/checkout')) return 'Checkout';
+    if (pathname.startsWith('/cart')) return 'Cart';
+    if (pathname.startsWith('/favorites')) return 'Favourites';
+    if (pathname.startsWith('/profile/orders/')) return 'Order details';
+    return null;
+};
 
-function MainLayout({ onLogout, styles }: { onLogout: () => void; styles: any }) {
-    const [activeTab, setActiveTab] = useState<TabKey>('home');
+function MainLayout({ onLogout }: { onLogout: () => void }) {
     const insets = useSafeAreaInsets();
+    const router = useRouter();
+    const pathname = usePathname();
     const cartCount = useCartStore(selectCartCount);
     const favoriteCount = useFavoritesStore(selectFavoriteCount);
+    const headerTitle = getHeaderTitle(pathname);
+
+    const handleBack = () => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace('/');
+        }
+    };
 
     return (
         // ✅ SafeAreaView should own edges + flex
@@ -56,11 +65,11 @@ function MainLayout({ onLogout, styles }: { onLogout: () => void; styles: any })
                 <View style={styles.headerContainer}>
                     <AquaHeader
                         onLogout={onLogout}
-                        headerText={activeTab === 'cart' || activeTab === 'favorites' || activeTab === 'shop'}
-                        onBack={activeTab !== 'home' ? () => setActiveTab('home') : undefined}
+                        headerText={headerTitle !== null}
+                        onBack={pathname !== '/' ? handleBack : undefined}
                         headerContent={
                             <Text style={{ fontSize: 20, fontWeight: '700', color: '#fff', letterSpacing: 0.5 }}>
-                                {activeTab === 'cart' ? 'Cart' : activeTab === 'favorites' ? 'Favourites' : activeTab === 'shop' ? 'Shop' : ''}
+                                {headerTitle}
                             </Text>
                         }
                     />
@@ -68,25 +77,46 @@ function MainLayout({ onLogout, styles }: { onLogout: () => void; styles: any })
 
                 {/* Content */}
                 <View style={styles.content}>
-                    <Animated.View
-                        key={activeTab}
-                        entering={FadeIn.duration(280).springify()}
-                        exiting={FadeOut.duration(180)}
-                        style={{ flex: 1 }}
+                    <Tabs
+                        backBehavior="history"
+                        screenOptions={{
+                            headerShown: false,
+                            animation: 'fade',
+                            sceneStyle: { backgroundColor: 'transparent' },
+                        }}
+                        tabBar={({ state, navigation }) => (
+                            <AquaFooter
+                                styles={styles}
+                                insets={insets}
+                                activeTab={toTabKey(state.routes[state.index].name)}
+                                setActiveTab={(key) => {
+                                    const route = state.routes.find((entry) => entry.name === TAB_ROUTES[key]);
+                                    if (!route) return;
+                                    // Same contract as the stock tab bar: re-pressing a tab pops its stack.
+                                    const event = navigation.emit({
+                                        type: 'tabPress',
+                                        target: route.key,
+                                        canPreventDefault: true,
+                                    });
+                                    if (state.routes[state.index].key !== route.key && !event.defaultPrevented) {
+                                        navigation.navigate(route.name, route.params);
+                                    }
+                                }}
+                                cartCount={cartCount}
+                                favoriteCount={favoriteCount}
+                            />
+                        )}
                     >
-                        {activeTab === 'home' && <HomePage onBrowsePress={() => setActiveTab('shop')} />}
-                        {activeTab === 'shop' && <ShopPage />}
-                        {activeTab === 'favorites' && <FavoritesPage />}
-                        {activeTab === 'cart' && <CartPage />}
-                        {activeTab === 'profile' && <ProfilePage />}
-                    </Animated.View>
+                        <Tabs.Screen name="index" />
+                        <Tabs.Screen name="shop" />
+                        <Tabs.Screen name="favorites" />
+                        <Tabs.Screen name="cart" />
+                        <Tabs.Screen name="profile" />
+                    </Tabs>
                 </View>
-
-                {/* Bottom Nav */}
-                <AquaFooter styles={styles} insets={insets} activeTab={activeTab} setActiveTab={setActiveTab} cartCount={cartCount} favoriteCount={favoriteCount} />
             </LinearGradient>
         </SafeAreaView>
     );
 }
 
-export default MainLayout;
\ No newline at end of file
+export default MainLayout;
@@ -1,54 +1,7 @@
-// App.tsx
-import { StatusBar } from 'expo-status-bar';
-import { useState } from 'react';
-import { StyleSheet, Text, TouchableOpacity, View, Image, Platform } from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
-import AuthPage from './pages/Auth';
-import {
-  SafeAreaProvider,
-} from 'react-native-safe-area-context';
-import { TabKey } from './components/types/layout';
-import { LinearGradient } from 'expo-linear-gradient';
-import MainLayout from './components/layouts/mainlayout';
+import { Platform, StyleSheet } from 'react-native';
 
-
-
-
-
-export default function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-
-  return (
-    <SafeAreaProvider>
-      <View style={styles.root}>
-        <LinearGradient
-          colors={['#24243e', '#302b63', '#0f0c29']}
-          start={{ x: 0, y: 0 }}
-          end={{ x: 1, y: 0 }}
-          style={StyleSheet.absoluteFill}
-        />
-
-        {isAuthenticated ? (
-          <MainLayout onLogout={() => setIsAuthenticated(false)} styles={styles} />
-        ) : (
-          <AuthPage onLoginSuccess={() => setIsAuthenticated(true)} />
-        )}
-      </View>
-
-      <StatusBar style="light" />
-    </SafeAreaProvider>
-  );
-}
-
-
-
-const styles = StyleSheet.create({
-  root: {
-    flex: 1,
-  },
-  safeArea: {
-    flex: 1,
-  },
+// Shared by MainLayout and AquaFooter: header slot, content area and the floating tab bar.
+export const layoutStyles = StyleSheet.create({
   content: {
     flex: 1,
     // paddingTop removed to allow scroll behind header
@@ -171,4 +124,4 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     paddingHorizontal: 2,
   },
-});
\ No newline at end of file
+});
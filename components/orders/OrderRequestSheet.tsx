@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import * as ImagePicker from 'expo-image-picker';
+import { DraggableDrawer } from '../drawer';
+import SelectableCard from '../checkout/SelectableCard';
+import { useCancelOrderMutation, useRequestReturnMutation } from '../../hooks/useOrders';
+import { OrderPhoto, getOrderRequestErrorMessage } from '../../services/orders';
+import {
+  CANCEL_REASONS,
+  MAX_RETURN_PHOTOS,
+  OTHER_REASON_KEY,
+  PHOTO_REASON_KEYS,
+  RETURN_REASONS,
+} from '../../utils/orders';
+import { triggerHaptic, triggerNotificationHaptic } from '../../utils/haptics';
+
+export type OrderRequestKind = 'cancel' | 'return';
+
+type OrderRequestSheetProps = {
+  visible: boolean;
+  kind: OrderRequestKind;
+  orderId: string;
+  onClose: () => void;
+  onSubmitted: () => void;
+};
+
+const COPY: Record<OrderRequestKind, { title: string; subtitle: string; submit: string }> = {
+  cancel: {
+    title: 'Cancel order',
+    subtitle: 'Online payments are refunded to the original method within 5–7 working days.',
+    submit: 'Cancel order',
+  },
+  return: {
+    title: 'Request a return',
+    subtitle: "We'll arrange a pickup once support approves the request, then refund you.",
+    submit: 'Request return',
+  },
+};
+
+const toOrderPhoto = (asset: ImagePicker.ImagePickerAsset, index: number): OrderPhoto => ({
+  uri: asset.uri,
+  name: asset.fileName ?? `photo-${Date.now()}-${index}.jpg`,
+  mimeType: asset.mimeType ?? 'image/jpeg',
+});
+
+export default function OrderRequestSheet({
+  visible,
+  kind,
+  orderId,
+  onClose,
+  onSubmitted,
+}: OrderRequestSheetProps) {
+  const cancelOrder = useCancelOrderMutation();
+  const requestReturn = useRequestReturnMutation();
+  const mutation = kind === 'cancel' ? cancelOrder : requestReturn;
+
+  const [reason, setReason] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [photos, setPhotos] = useState<OrderPhoto[]>([]);
+
+  const { reset: resetCancel } = cancelOrder;
+  const { reset: resetReturn } = requestReturn;
+  useEffect(() => {
+    if (!visible) return;
+    setReason(null);
+    setNote('');
+    setPhotos([]);
+    resetCancel();
+    resetReturn();
+  }, [kind, resetCancel, resetReturn, visible]);
+
+  const copy = COPY[kind];
+  const reasons = kind === 'cancel' ? CANCEL_REASONS : RETURN_REASONS;
+  const trimmedNote = note.trim();
+  const needsNote = reason === OTHER_REASON_KEY && trimmedNote.length === 0;
+  const canSubmit = reason !== null && !needsNote && !mutation.isPending;
+  const showPhotos = kind === 'return';
+  const remainingPhotos = MAX_RETURN_PHOTOS - photos.length;
+
+  const addAssets = (result: ImagePicker.ImagePickerResult) => {
+    if (result.canceled) return;
+    setPhotos((current) =>
+      [...current, ...result.assets.map(toOrderPhoto)].slice(0, MAX_RETURN_PHOTOS)
+    );
+  };
+
+  const handleTakePhoto = async () => {
+    triggerHaptic();
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        'Camera access needed',
+        'Allow camera access in Settings to photograph the item.'
+      );
+      return;
+    }
+    addAssets(await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.6 }));
+  };
+
+  const handlePickPhotos = async () => {
+    triggerHaptic();
+    addAssets(
+      await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: remainingPhotos,
+        quality: 0.6,
+      })
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || reason === null) return;
+    triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      const request = { orderId, reason, note: trimmedNote || null };
+      if (kind === 'cancel') {
+        await cancelOrder.mutateAsync(request);
+      } else {
+        await requestReturn.mutateAsync({ ...request, photos });
+      }
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
+      onSubmitted();
+    } catch {
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  return (
+    <DraggableDrawer
+      visible={visible}
+      onClose={mutation.isPending ? () => {} : onClose}
+      title={copy.title}
+      subtitle={copy.subtitle}
+    >
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.sectionTitle}>Reason</Text>
+        <View style={styles.reasons}>
+          {reasons.map((option) => (
+            <SelectableCard
+              key={option.key}
+              title={option.label}
+              selected={reason === option.key}
+              onPress={() => setReason(option.key)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          {reason === OTHER_REASON_KEY ? 'Tell us more' : 'Anything else? (optional)'}
+        </Text>
+        <TextInput
+          value={note}
+          onChangeText={setNote}
+          placeholder="Add details for our support team"
+          placeholderTextColor="rgba(255,255,255,0.45)"
+          multiline
+          maxLength={500}
+          style={styles.noteInput}
+        />
+
+        {showPhotos && (
+          <>
+            <Text style={styles.sectionTitle}>
+              Photos{' '}
+              {reason !== null && PHOTO_REASON_KEYS.has(reason) ? '(recommended)' : '(optional)'}
+            </Text>
+            <View style={styles.photoRow}>
+              {photos.map((photo) => (
+                <View key={photo.uri} style={styles.photoTile}>
+                  <Image source={{ uri: photo.uri }} style={styles.photo} />
+                  <TouchableOpacity
+                    style={styles.photoRemove}
+                    onPress={() =>
+                      setPhotos((current) => current.filter((entry) => entry.uri !== photo.uri))
+                    }
+                    accessibilityRole="button"
+                    accessibilityLabel="Remove photo"
+                  >
+                    <Ionicons name="close" size={14} color="#ffffff" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {remainingPhotos > 0 && (
+                <>
+                  <TouchableOpacity
+                    style={[styles.photoTile, styles.photoAdd]}
+                    onPress={handleTakePhoto}
+                    accessibilityRole="button"
+                    accessibilityLabel="Take a photo"
+                  >
+                    <Ionicons name="camera-outline" size={22} color="#ffffff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.photoTile, styles.photoAdd]}
+                    onPress={handlePickPhotos}
+                    accessibilityRole="button"
+                    accessibilityLabel="Choose photos"
+                  >
+                    <Ionicons name="images-outline" size={22} color="#ffffff" />
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+            <Text style={styles.hint}>
+              Up to {MAX_RETURN_PHOTOS} photos of the damage or fault.
+            </Text>
+          </>
+        )}
+
+        {mutation.isError && (
+          <View style={styles.errorBanner}>
+            <Ionicons name="alert-circle" size={18} color="#fecaca" />
+            <Text style={styles.errorText}>{getOrderRequestErrorMessage(mutation.error)}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+          accessibilityRole="button"
+        >
+          {mutation.isPending ? (
+            <ActivityIndicator color="#0C2B4E" />
+          ) : (
+            <Text style={styles.submitButtonText}>{copy.submit}</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </DraggableDrawer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the drawer's absolute header
+    paddingBottom: 48,
+    gap: 12,
+  },
+  sectionTitle: {
+    marginTop: 4,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  reasons: {
+    gap: 8,
+  },
+  noteInput: {
+    minHeight: 80,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    color: '#ffffff',
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  photoTile: {
+    width: 72,
+    height: 72,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  photoAdd: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  photoRemove: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.65)',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(239,68,68,0.15)',
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.4)',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#fecaca',
+  },
+  submitButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    marginTop: 8,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    backgroundColor: '#e0f2fe',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+});
@@ -0,0 +1,111 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TimelineStep, formatOrderTimestamp } from '../../utils/orders';
+
+type OrderTimelineProps = {
+  steps: TimelineStep[];
+  // Cancelled, returned and refunded orders end on a red step instead of a blue one.
+  stopped?: boolean;
+};
+
+export default function OrderTimeline({ steps, stopped = false }: OrderTimelineProps) {
+  return (
+    <View>
+      {steps.map((step, index) => {
+        const isLast = index === steps.length - 1;
+        const done = step.state === 'done';
+        const current = step.state === 'current';
+        const timestamp = formatOrderTimestamp(step.at);
+        return (
+          <View key={step.status} style={styles.step}>
+            <View style={styles.rail}>
+              <View
+                style={[
+                  styles.dot,
+                  done && styles.dotDone,
+                  current && (stopped ? styles.dotStopped : styles.dotCurrent),
+                ]}
+              >
+                {done && <Ionicons name="checkmark" size={12} color="#0C2B4E" />}
+                {current && stopped && <Ionicons name="close" size={12} color="#ffffff" />}
+              </View>
+              {!isLast && <View style={[styles.connector, done && styles.connectorDone]} />}
+            </View>
+            <View style={[styles.body, !isLast && styles.bodySpaced]}>
+              <Text style={[styles.label, (done || current) && styles.labelReached]}>
+                {step.label}
+              </Text>
+              {timestamp ? (
+                <Text style={styles.timestamp}>{timestamp}</Text>
+              ) : current && !stopped ? (
+                <Text style={styles.timestamp}>In progress</Text>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  step: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rail: {
+    alignItems: 'center',
+    width: 24,
+  },
+  dot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  dotCurrent: {
+    borderColor: '#38bdf8',
+    backgroundColor: 'rgba(56,189,248,0.2)',
+  },
+  dotDone: {
+    borderColor: '#e0f2fe',
+    backgroundColor: '#e0f2fe',
+  },
+  dotStopped: {
+    borderColor: '#f87171',
+    backgroundColor: 'rgba(239,68,68,0.6)',
+  },
+  connector: {
+    flex: 1,
+    width: 2,
+    minHeight: 16,
+    marginVertical: 4,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  connectorDone: {
+    backgroundColor: '#e0f2fe',
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+    paddingTop: 2,
+  },
+  bodySpaced: {
+    paddingBottom: 16,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.5)',
+  },
+  labelReached: {
+    color: '#ffffff',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+  },
+});
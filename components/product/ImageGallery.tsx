@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import {
+  FlatList,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ZoomableImage from './ZoomableImage';
+
+type ImageGalleryProps = {
+  images: string[];
+  width: number;
+  height: number;
+  onZoomChange?: (zoomed: boolean) => void;
+};
+
+export default function ImageGallery({ images, width, height, onZoomChange }: ImageGalleryProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [zoomed, setZoomed] = useState(false);
+
+  const handleZoomChange = (next: boolean) => {
+    setZoomed(next);
+    onZoomChange?.(next);
+  };
+
+  const handleMomentumEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setActiveIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  if (images.length === 0) {
+    return (
+      <View style={[styles.container, styles.placeholder, { width, height }]}>
+        <Ionicons name="image-outline" size={36} color="#94a3b8" />
+        <Text style={styles.placeholderText}>No images</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { width }]}>
+      <FlatList
+        data={images}
+        keyExtractor={(uri, index) => `${index}-${uri}`}
+        horizontal
+        pagingEnabled
+        // A zoomed image pans instead of paging.
+        scrollEnabled={!zoomed}
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleMomentumEnd}
+        renderItem={({ item }) => (
+          <ZoomableImage uri={item} width={width} height={height} onZoomChange={handleZoomChange} />
+        )}
+      />
+      {images.length > 1 && (
+        <View style={styles.dots} pointerEvents="none">
+          {images.map((uri, index) => (
+            <View
+              key={`${index}-${uri}`}
+              style={[styles.dot, index === activeIndex && styles.dotActive]}
+            />
+          ))}
+        </View>
+      )}
+      {images.length > 1 && (
+        <View style={styles.counter} pointerEvents="none">
+          <Text style={styles.counterText}>
+            {activeIndex + 1}/{images.length}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: '#f1f5f9',
+  },
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  placeholderText: {
+    color: '#64748b',
+    fontSize: 13,
+  },
+  dots: {
+    position: 'absolute',
+    bottom: 12,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(15,23,42,0.25)',
+  },
+  dotActive: {
+    width: 18,
+    backgroundColor: '#0C2B4E',
+  },
+  counter: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    backgroundColor: 'rgba(15,23,42,0.6)',
+  },
+  counterText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
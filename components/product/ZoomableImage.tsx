@@ -0,0 +1,133 @@
+import { useMemo, useRef } from 'react';
+import { Animated, GestureResponderEvent, PanResponder, StyleSheet } from 'react-native';
+
+type ZoomableImageProps = {
+  uri: string;
+  width: number;
+  height: number;
+  onZoomChange?: (zoomed: boolean) => void;
+};
+
+const MAX_SCALE = 3;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+const touchDistance = (event: GestureResponderEvent) => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+// Pinch to zoom, drag to pan while zoomed. Letting go below 1x springs back.
+export default function ZoomableImage({ uri, width, height, onZoomChange }: ZoomableImageProps) {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+
+  // Animated.Value can't be read synchronously, so the gesture keeps its own copy.
+  const current = useRef({ scale: 1, x: 0, y: 0 });
+  const pinch = useRef({ distance: 0, scale: 1 });
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+
+  const isZoomed = () => current.current.scale > 1;
+
+  const applyTransform = (next: { scale: number; x: number; y: number }) => {
+    const maxX = (width * (next.scale - 1)) / 2;
+    const maxY = (height * (next.scale - 1)) / 2;
+    current.current = {
+      scale: next.scale,
+      x: clamp(next.x, -maxX, maxX),
+      y: clamp(next.y, -maxY, maxY),
+    };
+    scale.setValue(current.current.scale);
+    translateX.setValue(current.current.x);
+    translateY.setValue(current.current.y);
+  };
+
+  const reset = () => {
+    current.current = { scale: 1, x: 0, y: 0 };
+    Animated.parallel([
+      Animated.spring(scale, { toValue: 1, useNativeDriver: true }),
+      Animated.spring(translateX, { toValue: 0, useNativeDriver: true }),
+      Animated.spring(translateY, { toValue: 0, useNativeDriver: true }),
+    ]).start();
+    onZoomChangeRef.current?.(false);
+  };
+
+  const responder = useMemo(
+    () =>
+      PanResponder.create({
+        // Single-finger drags belong to the gallery until the image is zoomed.
+        onStartShouldSetPanResponder: (event) =>
+          event.nativeEvent.touches.length === 2 || isZoomed(),
+        onMoveShouldSetPanResponder: (event) =>
+          event.nativeEvent.touches.length === 2 || isZoomed(),
+        onPanResponderTerminationRequest: () => !isZoomed(),
+        onPanResponderGrant: () => {
+          pinch.current.distance = 0;
+          lastPoint.current = null;
+        },
+        onPanResponderMove: (event) => {
+          const { touches } = event.nativeEvent;
+
+          if (touches.length === 2) {
+            lastPoint.current = null;
+            const distance = touchDistance(event);
+            if (pinch.current.distance === 0) {
+              pinch.current = { distance, scale: current.current.scale };
+              return;
+            }
+            const wasZoomed = isZoomed();
+            applyTransform({
+              ...current.current,
+              scale: clamp((pinch.current.scale * distance) / pinch.current.distance, 1, MAX_SCALE),
+            });
+            if (!wasZoomed && isZoomed()) onZoomChangeRef.current?.(true);
+            return;
+          }
+
+          pinch.current.distance = 0;
+          if (!isZoomed() || touches.length !== 1) return;
+
+          const point = { x: touches[0].pageX, y: touches[0].pageY };
+          if (lastPoint.current) {
+            applyTransform({
+              scale: current.current.scale,
+              x: current.current.x + point.x - lastPoint.current.x,
+              y: current.current.y + point.y - lastPoint.current.y,
+            });
+          }
+          lastPoint.current = point;
+        },
+        onPanResponderRelease: () => {
+          if (current.current.scale <= 1.05) reset();
+        },
+        onPanResponderTerminate: () => {
+          if (current.current.scale <= 1.05) reset();
+        },
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [width, height]
+  );
+
+  return (
+    <Animated.View style={[styles.frame, { width, height }]} {...responder.panHandlers}>
+      <Animated.Image
+        source={{ uri }}
+        resizeMode="contain"
+        style={{
+          width,
+          height,
+          transform: [{ translateX }, { translateY }, { scale }],
+        }}
+      />
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,160 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { triggerHaptic, triggerSelectionHaptic } from '../../utils/haptics';
+import { FilterPill } from '../../utils/filters';
+
+type FilterBarProps = {
+  pills: FilterPill[];
+  resultCount: number | null;
+  sortLabel: string;
+  onOpenFilters: () => void;
+  onOpenSort: () => void;
+  onRemovePill: (pill: FilterPill) => void;
+};
+
+export default function FilterBar({
+  pills,
+  resultCount,
+  sortLabel,
+  onOpenFilters,
+  onOpenSort,
+  onRemovePill,
+}: FilterBarProps) {
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.row}>
+        <View style={styles.buttonGroup}>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => {
+              triggerHaptic();
+              onOpenFilters();
+            }}
+            accessibilityRole="button"
+            accessibilityLabel="Open filters"
+          >
+            <Ionicons name="options-outline" size={16} color="#ffffff" />
+            <Text style={styles.filterButtonText}>Filters</Text>
+            {pills.length > 0 && (
+              <View style={styles.countBadge}>
+                <Text style={styles.countBadgeText}>{pills.length}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => {
+              triggerHaptic();
+              onOpenSort();
+            }}
+            accessibilityRole="button"
+            accessibilityLabel={`Sort products, currently ${sortLabel}`}
+          >
+            <Ionicons name="swap-vertical" size={16} color="#ffffff" />
+            <Text style={styles.filterButtonText} numberOfLines={1}>
+              {sortLabel}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {resultCount !== null && (
+          <Text style={styles.resultCount}>
+            {resultCount} result{resultCount === 1 ? '' : 's'}
+          </Text>
+        )}
+      </View>
+
+      {pills.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.pillRow}
+        >
+          {pills.map((pill) => (
+            <TouchableOpacity
+              key={pill.id}
+              style={styles.pill}
+              onPress={() => {
+                triggerSelectionHaptic();
+                onRemovePill(pill);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${pill.label} filter`}
+            >
+              <Text style={styles.pillText}>{pill.label}</Text>
+              <Ionicons name="close" size={14} color="#0C2B4E" />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    gap: 10,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  buttonGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexShrink: 1,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  filterButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  countBadge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#38bdf8',
+    paddingHorizontal: 4,
+  },
+  countBadgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  resultCount: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.6)',
+  },
+  pillRow: {
+    gap: 8,
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: '#e0f2fe',
+  },
+  pillText: {
+    color: '#0C2B4E',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DraggableDrawer } from '../drawer';
+import RangeSlider from './RangeSlider';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+import {
+  CategoryOption,
+  EMPTY_FILTERS,
+  PRICE_STEP,
+  PriceRange,
+  ProductFilters,
+} from '../../utils/filters';
+
+type FilterSheetProps = {
+  visible: boolean;
+  filters: ProductFilters;
+  categories: CategoryOption[];
+  priceBounds: PriceRange | null;
+  onApply: (filters: ProductFilters) => void;
+  onClose: () => void;
+};
+
+export default function FilterSheet({
+  visible,
+  filters,
+  categories,
+  priceBounds,
+  onApply,
+  onClose,
+}: FilterSheetProps) {
+  // Edits stay local until Apply so the grid doesn't reshuffle under the sheet.
+  const [draft, setDraft] = useState(filters);
+
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible, filters]);
+
+  const toggleCategory = (name: string) => {
+    triggerSelectionHaptic();
+    setDraft((prev) => ({
+      ...prev,
+      categories: prev.categories.includes(name)
+        ? prev.categories.filter((entry) => entry !== name)
+        : [...prev.categories, name],
+    }));
+  };
+
+  const handlePriceChange = (range: PriceRange) => {
+    setDraft((prev) => ({
+      ...prev,
+      // Spanning the full catalog is the same as no price filter.
+      priceRange:
+        priceBounds && range[0] === priceBounds[0] && range[1] === priceBounds[1] ? null : range,
+    }));
+  };
+
+  const priceValue = draft.priceRange ?? priceBounds;
+
+  return (
+    <DraggableDrawer
+      visible={visible}
+      onClose={onClose}
+      title="Filters"
+      subtitle="Narrow the catalog by category, price and availability."
+      onDone={() => onApply(draft)}
+      doneLabel="Apply"
+    >
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Category</Text>
+          {categories.length === 0 ? (
+            <Text style={styles.hint}>No categories available yet.</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {categories.map((category) => {
+                const selected = draft.categories.includes(category.name);
+                return (
+                  <TouchableOpacity
+                    key={category.name}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleCategory(category.name)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    {selected && <Ionicons name="checkmark" size={14} color="#0C2B4E" />}
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {category.name} · {category.count}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Price</Text>
+            {priceValue && (
+              <Text style={styles.priceLabel}>
+                ₹{priceValue[0]} – ₹{priceValue[1]}
+              </Text>
+            )}
+          </View>
+          {priceBounds && priceValue ? (
+            <RangeSlider
+              min={priceBounds[0]}
+              max={priceBounds[1]}
+              step={PRICE_STEP}
+              value={priceValue}
+              onChange={handlePriceChange}
+            />
+          ) : (
+            <Text style={styles.hint}>Prices are not available for these products.</Text>
+          )}
+        </View>
+
+        <View style={[styles.section, styles.switchRow]}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.sectionTitle}>In stock only</Text>
+            <Text style={styles.hint}>Hide products that are currently sold out.</Text>
+          </View>
+          <Switch
+            value={draft.inStockOnly}
+            onValueChange={(inStockOnly) => {
+              triggerSelectionHaptic();
+              setDraft((prev) => ({ ...prev, inStockOnly }));
+            }}
+            trackColor={{ false: 'rgba(255,255,255,0.2)', true: '#38bdf8' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => {
+            triggerSelectionHaptic();
+            setDraft(EMPTY_FILTERS);
+          }}
+          accessibilityRole="button"
+        >
+          <Ionicons name="refresh" size={16} color="#ffffff" />
+          <Text style={styles.resetText}>Reset filters</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </DraggableDrawer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the drawer's absolute header
+    paddingBottom: 48,
+    gap: 24,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.6)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  chipSelected: {
+    backgroundColor: '#e0f2fe',
+    borderColor: '#e0f2fe',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  chipTextSelected: {
+    color: '#0C2B4E',
+  },
+  priceLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#38bdf8',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  resetText: {
+    color: '#ffffff',
+    fontWeight: '700',
+  },
+});
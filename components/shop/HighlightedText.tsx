@@ -0,0 +1,42 @@
+import { StyleProp, Text, TextProps, TextStyle } from 'react-native';
+import { MatchRange } from '../../utils/search';
+
+type HighlightedTextProps = TextProps & {
+  text: string;
+  ranges: MatchRange[];
+  highlightStyle: StyleProp<TextStyle>;
+};
+
+export default function HighlightedText({
+  text,
+  ranges,
+  highlightStyle,
+  ...textProps
+}: HighlightedTextProps) {
+  if (ranges.length === 0) {
+    return <Text {...textProps}>{text}</Text>;
+  }
+
+  const segments: { value: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      segments.push({ value: text.slice(cursor, start), highlighted: false });
+    }
+    segments.push({ value: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ value: text.slice(cursor), highlighted: false });
+  }
+
+  return (
+    <Text {...textProps}>
+      {segments.map((segment, index) => (
+        <Text key={index} style={segment.highlighted ? highlightStyle : undefined}>
+          {segment.value}
+        </Text>
+      ))}
+    </Text>
+  );
+}
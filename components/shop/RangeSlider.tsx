@@ -0,0 +1,117 @@
+import { useMemo, useRef, useState } from 'react';
+import { LayoutChangeEvent, PanResponder, StyleSheet, View } from 'react-native';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+
+type RangeSliderProps = {
+  min: number;
+  max: number;
+  step: number;
+  value: [number, number];
+  onChange: (value: [number, number]) => void;
+};
+
+const THUMB_SIZE = 26;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+export default function RangeSlider({ min, max, step, value, onChange }: RangeSliderProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // PanResponder callbacks are created once; refs keep them reading fresh props.
+  const latest = useRef({ min, max, step, value, onChange, trackWidth });
+  latest.current = { min, max, step, value, onChange, trackWidth };
+  const dragStart = useRef(0);
+
+  const makeResponder = (thumb: 0 | 1) =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragStart.current = latest.current.value[thumb];
+      },
+      onPanResponderMove: (_, { dx }) => {
+        const { min, max, step, value, onChange, trackWidth } = latest.current;
+        if (trackWidth <= 0) return;
+
+        const raw = dragStart.current + (dx / trackWidth) * (max - min);
+        const snapped = Math.round(raw / step) * step;
+        const next: [number, number] = [...value];
+        next[thumb] =
+          thumb === 0 ? clamp(snapped, min, value[1]) : clamp(snapped, value[0], max);
+
+        if (next[thumb] !== value[thumb]) {
+          triggerSelectionHaptic();
+          onChange(next);
+        }
+      },
+    });
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const responders = useMemo(() => [makeResponder(0), makeResponder(1)], []);
+
+  const span = max - min || 1;
+  const toOffset = (v: number) => ((v - min) / span) * trackWidth;
+  const lowOffset = toOffset(value[0]);
+  const highOffset = toOffset(value[1]);
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(event: LayoutChangeEvent) =>
+        setTrackWidth(event.nativeEvent.layout.width - THUMB_SIZE)
+      }
+    >
+      <View style={styles.track} />
+      <View
+        style={[styles.activeTrack, { left: lowOffset + THUMB_SIZE / 2, width: highOffset - lowOffset }]}
+      />
+      {[lowOffset, highOffset].map((offset, thumb) => (
+        <View
+          key={thumb}
+          style={[styles.thumb, { left: offset }]}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          accessibilityRole="adjustable"
+          accessibilityLabel={thumb === 0 ? 'Minimum price' : 'Maximum price'}
+          accessibilityValue={{ min, max, now: value[thumb] }}
+          {...responders[thumb].panHandlers}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: THUMB_SIZE + 12,
+    justifyContent: 'center',
+  },
+  track: {
+    position: 'absolute',
+    left: THUMB_SIZE / 2,
+    right: THUMB_SIZE / 2,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  activeTrack: {
+    position: 'absolute',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#38bdf8',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#ffffff',
+    borderWidth: 3,
+    borderColor: '#38bdf8',
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 4,
+  },
+});
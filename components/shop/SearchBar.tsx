@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+
+type SearchBarProps = {
+  value: string;
+  onChangeText: (value: string) => void;
+  onSubmit: (value: string) => void;
+  isSearching: boolean;
+  recentSearches: string[];
+  onRemoveRecent: (value: string) => void;
+  onClearRecent: () => void;
+};
+
+export default function SearchBar({
+  value,
+  onChangeText,
+  onSubmit,
+  isSearching,
+  recentSearches,
+  onRemoveRecent,
+  onClearRecent,
+}: SearchBarProps) {
+  const [focused, setFocused] = useState(false);
+  const showRecent = focused && value.trim().length === 0 && recentSearches.length > 0;
+
+  return (
+    <View style={styles.wrapper}>
+      <BlurView intensity={25} tint="dark" style={styles.bar}>
+        <Ionicons name="search" size={18} color="rgba(255,255,255,0.7)" />
+        <TextInput
+          style={styles.input}
+          value={value}
+          onChangeText={onChangeText}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onSubmitEditing={() => onSubmit(value)}
+          placeholder="Search cans, dispensers, filters…"
+          placeholderTextColor="rgba(255,255,255,0.45)"
+          returnKeyType="search"
+          autoCorrect={false}
+          autoCapitalize="none"
+          cursorColor="#38bdf8"
+          accessibilityLabel="Search products"
+        />
+        {isSearching ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : value.length > 0 ? (
+          <TouchableOpacity
+            onPress={() => {
+              triggerSelectionHaptic();
+              onChangeText('');
+            }}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel="Clear search"
+          >
+            <Ionicons name="close-circle" size={18} color="rgba(255,255,255,0.7)" />
+          </TouchableOpacity>
+        ) : null}
+      </BlurView>
+
+      {showRecent && (
+        <BlurView intensity={25} tint="dark" style={styles.recentCard}>
+          <View style={styles.recentHeader}>
+            <Text style={styles.recentTitle}>Recent searches</Text>
+            <TouchableOpacity onPress={onClearRecent} accessibilityRole="button">
+              <Text style={styles.recentClear}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {recentSearches.map((entry) => (
+            <View key={entry} style={styles.recentRow}>
+              <TouchableOpacity
+                style={styles.recentEntry}
+                onPress={() => {
+                  triggerSelectionHaptic();
+                  onChangeText(entry);
+                  onSubmit(entry);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel={`Search for ${entry}`}
+              >
+                <Ionicons name="time-outline" size={16} color="rgba(255,255,255,0.6)" />
+                <Text style={styles.recentText} numberOfLines={1}>
+                  {entry}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => onRemoveRecent(entry)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${entry} from recent searches`}
+              >
+                <Ionicons name="close" size={16} color="rgba(255,255,255,0.5)" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </BlurView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    marginBottom: 16,
+    gap: 8,
+  },
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    height: 46,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+  },
+  input: {
+    flex: 1,
+    height: '100%',
+    fontSize: 15,
+    color: '#ffffff',
+  },
+  recentCard: {
+    borderRadius: 14,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+    paddingVertical: 8,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  recentTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  recentClear: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#38bdf8',
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 10,
+  },
+  recentEntry: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  recentText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ffffff',
+  },
+});
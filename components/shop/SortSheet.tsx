@@ -0,0 +1,82 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DraggableDrawer } from '../drawer';
+import { triggerSelectionHaptic } from '../../utils/haptics';
+import { SORT_OPTIONS, SortKey } from '../../utils/sort';
+
+type SortSheetProps = {
+  visible: boolean;
+  sortKey: SortKey;
+  onSelect: (sortKey: SortKey) => void;
+  onClose: () => void;
+};
+
+export default function SortSheet({ visible, sortKey, onSelect, onClose }: SortSheetProps) {
+  return (
+    <DraggableDrawer visible={visible} onClose={onClose} title="Sort by">
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {SORT_OPTIONS.map((option) => {
+          const selected = option.key === sortKey;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => {
+                triggerSelectionHaptic();
+                onSelect(option.key);
+              }}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+            >
+              <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+              <Ionicons
+                name={selected ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={selected ? '#38bdf8' : 'rgba(255,255,255,0.5)'}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </DraggableDrawer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 100, // Clear the drawer's absolute header
+    paddingBottom: 48,
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  optionSelected: {
+    backgroundColor: 'rgba(56,189,248,0.12)',
+    borderColor: 'rgba(56,189,248,0.4)',
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.85)',
+  },
+  optionTextSelected: {
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,425 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { DraggableDrawer } from '../drawer';
+import SelectableCard from '../checkout/SelectableCard';
+import { useAddressesQuery } from '../../hooks/useAddresses';
+import { useProductsQuery } from '../../hooks/useProducts';
+import { useCreateSubscriptionMutation } from '../../hooks/useSubscriptions';
+import { getSubscriptionErrorMessage } from '../../services/subscriptions';
+import { formatAddressLines, getDefaultAddress } from '../../utils/address';
+import { formatPaise, toPaise } from '../../utils/pricing';
+import { getProductPrice, getProductQuantityLimit, getProductTitle } from '../../utils/products';
+import {
+  FREQUENCY_OPTIONS,
+  FrequencyKind,
+  SubscriptionFrequency,
+  WEEKDAY_LABELS,
+  Weekday,
+  describeFrequency,
+  formatDateKey,
+  getStartDateOptions,
+  getUpcomingDeliveries,
+} from '../../utils/subscriptions';
+import {
+  triggerHaptic,
+  triggerNotificationHaptic,
+  triggerSelectionHaptic,
+} from '../../utils/haptics';
+
+type SubscriptionSheetProps = {
+  visible: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+};
+
+export default function SubscriptionSheet({ visible, onClose, onCreated }: SubscriptionSheetProps) {
+  const { data: products = [], isPending: productsPending } = useProductsQuery({
+    enabled: visible,
+  });
+  const addressesQuery = useAddressesQuery({ enabled: visible });
+  const addresses = addressesQuery.data ?? [];
+  const createSubscription = useCreateSubscriptionMutation();
+  const startDates = useMemo(() => getStartDateOptions(), []);
+
+  const [productKey, setProductKey] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState(1);
+  const [frequencyKind, setFrequencyKind] = useState<FrequencyKind>('daily');
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [startDate, setStartDate] = useState(startDates[0]);
+  // Until one is picked, the account's default address is used.
+  const [pickedAddressId, setAddressId] = useState<string | null>(null);
+
+  const { reset } = createSubscription;
+  useEffect(() => {
+    if (!visible) return;
+    setProductKey(null);
+    setQuantity(1);
+    setFrequencyKind('daily');
+    setWeekdays([]);
+    setStartDate(startDates[0]);
+    setAddressId(null);
+    reset();
+  }, [reset, startDates, visible]);
+
+  // Only products that can actually be delivered on a schedule, and that the
+  // server can identify by id.
+  const options = useMemo(
+    () =>
+      products.filter(
+        (product) =>
+          product.id !== null &&
+          getProductPrice(product) !== null &&
+          getProductQuantityLimit(product).max > 0
+      ),
+    [products]
+  );
+
+  const product = options.find((entry) => entry.key === productKey) ?? null;
+  const addressId = pickedAddressId ?? getDefaultAddress(addresses)?.id ?? null;
+  const address = addresses.find((entry) => entry.id === addressId) ?? null;
+  const maxQuantity = product ? getProductQuantityLimit(product).max : 1;
+  const frequency: SubscriptionFrequency =
+    frequencyKind === 'custom' ? { kind: 'custom', weekdays } : { kind: frequencyKind };
+  const upcoming = getUpcomingDeliveries(frequency, startDate, { count: 3 });
+  const price = product ? getProductPrice(product) : null;
+
+  const canSubmit =
+    product !== null && address !== null && upcoming.length > 0 && !createSubscription.isPending;
+
+  const toggleWeekday = (day: Weekday) => {
+    triggerSelectionHaptic();
+    setWeekdays((current) =>
+      current.includes(day) ? current.filter((entry) => entry !== day) : [...current, day]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !product || !address) return;
+    triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      await createSubscription.mutateAsync({
+        product,
+        quantity: Math.min(quantity, maxQuantity),
+        frequency,
+        startDate,
+        address,
+      });
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
+      onCreated();
+    } catch {
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  return (
+    <DraggableDrawer
+      visible={visible}
+      onClose={createSubscription.isPending ? () => {} : onClose}
+      title="New subscription"
+      subtitle="Get water delivered on a schedule. Pause, skip or cancel any time."
+    >
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Product</Text>
+          {productsPending ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : options.length === 0 ? (
+            <Text style={styles.hint}>No products are available for subscription right now.</Text>
+          ) : (
+            options.map((option, index) => {
+              const optionPrice = getProductPrice(option);
+              return (
+                <SelectableCard
+                  key={option.key}
+                  title={getProductTitle(option, index)}
+                  lines={optionPrice === null ? [] : [`${formatPaise(toPaise(optionPrice))} each`]}
+                  selected={option.key === productKey}
+                  onPress={() => {
+                    setProductKey(option.key);
+                    setQuantity((current) =>
+                      Math.min(current, getProductQuantityLimit(option).max)
+                    );
+                  }}
+                />
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Quantity per delivery</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={[styles.stepperButton, quantity <= 1 && styles.buttonDisabled]}
+              onPress={() => {
+                triggerSelectionHaptic();
+                setQuantity((current) => Math.max(1, current - 1));
+              }}
+              disabled={quantity <= 1}
+              accessibilityRole="button"
+              accessibilityLabel="Decrease quantity"
+            >
+              <Ionicons name="remove" size={18} color="#ffffff" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{quantity}</Text>
+            <TouchableOpacity
+              style={[styles.stepperButton, quantity >= maxQuantity && styles.buttonDisabled]}
+              onPress={() => {
+                if (quantity >= maxQuantity) {
+                  triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+                  return;
+                }
+                triggerSelectionHaptic();
+                setQuantity(quantity + 1);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Increase quantity"
+            >
+              <Ionicons name="add" size={18} color="#ffffff" />
+            </TouchableOpacity>
+            {price !== null && (
+              <Text style={styles.hint}>
+                {formatPaise(toPaise(price) * quantity)} per delivery, before GST
+              </Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>How often</Text>
+          <View style={styles.chipRow}>
+            {FREQUENCY_OPTIONS.map((option) => {
+              const selected = option.kind === frequencyKind;
+              return (
+                <TouchableOpacity
+                  key={option.kind}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => {
+                    triggerSelectionHaptic();
+                    setFrequencyKind(option.kind);
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {frequencyKind === 'custom' && (
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = weekdays.includes(day as Weekday);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleWeekday(day as Weekday)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Starting</Text>
+          <View style={styles.chipRow}>
+            {startDates.map((date) => {
+              const selected = date === startDate;
+              return (
+                <TouchableOpacity
+                  key={date}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => {
+                    triggerSelectionHaptic();
+                    setStartDate(date);
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {formatDateKey(date)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.hint}>
+            {upcoming.length > 0
+              ? `${describeFrequency(frequency, startDate)} · first deliveries ${upcoming
+                  .map(formatDateKey)
+                  .join(', ')}`
+              : 'Pick at least one day of the week.'}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Deliver to</Text>
+          {addressesQuery.isPending ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : addressesQuery.isError ? (
+            <Text style={styles.hint}>
+              Couldn't load your saved addresses. Close and try again.
+            </Text>
+          ) : addresses.length === 0 ? (
+            <Text style={styles.hint}>Add a delivery address in your profile first.</Text>
+          ) : (
+            addresses.map((entry) => (
+              <SelectableCard
+                key={entry.id}
+                title={entry.label}
+                lines={formatAddressLines(entry)}
+                selected={entry.id === addressId}
+                onPress={() => setAddressId(entry.id)}
+                icon="location-outline"
+              />
+            ))
+          )}
+        </View>
+
+        {createSubscription.isError && (
+          <View style={styles.errorBanner}>
+            <Ionicons name="alert-circle" size={18} color="#fecaca" />
+            <Text style={styles.errorText}>
+              {getSubscriptionErrorMessage(createSubscription.error)}
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+          accessibilityRole="button"
+        >
+          {createSubscription.isPending ? (
+            <ActivityIndicator color="#0C2B4E" />
+          ) : (
+            <Text style={styles.submitButtonText}>Subscribe</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </DraggableDrawer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the drawer's absolute header
+    paddingBottom: 48,
+    gap: 24,
+  },
+  section: {
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.65)',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  stepperValue: {
+    minWidth: 24,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  chipSelected: {
+    backgroundColor: '#e0f2fe',
+    borderColor: '#e0f2fe',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  chipTextSelected: {
+    color: '#0C2B4E',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(239,68,68,0.15)',
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.4)',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#fecaca',
+  },
+  submitButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    backgroundColor: '#e0f2fe',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+});
@@ -0,0 +1,21 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchAddresses, saveAddresses } from '../services/addresses';
+import { queryKeys } from '../services/queryClient';
+
+export const useAddressesQuery = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.addresses,
+    queryFn: fetchAddresses,
+    enabled,
+  });
+
+export const useSaveAddressesMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveAddresses,
+    onSuccess: (addresses) => {
+      queryClient.setQueryData(queryKeys.addresses, addresses);
+    },
+  });
+};
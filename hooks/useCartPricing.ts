@@ -0,0 +1,70 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { CouponError, getCouponErrorMessage, normalizeCouponCode, validateCoupon } from '../services/coupons';
+import { queryKeys } from '../services/queryClient';
+import { useCartStore } from '../store/cartStore';
+import { PricingLineInput, priceCart } from '../utils/pricing';
+
+// Order-independent, so reordering lines doesn't trigger a re-validation.
+const getCartSignature = (lines: PricingLineInput[]) =>
+  lines
+    .map((line) => `${line.key}:${line.quantity}`)
+    .sort()
+    .join(',');
+
+const couponQueryOptions = (code: string, lines: PricingLineInput[]) => ({
+  queryKey: queryKeys.coupon(code, getCartSignature(lines)),
+  queryFn: () => validateCoupon(code, lines),
+  // A verdict only holds for the cart it was given; the key changes with the cart.
+  staleTime: 60 * 1000,
+});
+
+// The cart priced with its coupon, if any. The coupon is re-validated whenever
+// the cart changes; until the answer arrives the last valid coupon keeps
+// applying, re-evaluated locally against the new cart.
+export const useCartPricing = () => {
+  const itemsMap = useCartStore((state) => state.items);
+  const couponCode = useCartStore((state) => state.couponCode);
+
+  const lines = useMemo<PricingLineInput[]>(
+    () =>
+      Object.entries(itemsMap).map(([key, entry]) => ({
+        key,
+        product: entry.product,
+        quantity: entry.quantity,
+      })),
+    [itemsMap]
+  );
+
+  const couponQuery = useQuery({
+    ...couponQueryOptions(couponCode ?? '', lines),
+    enabled: Boolean(couponCode) && lines.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const coupon = couponCode && !couponQuery.isError ? (couponQuery.data ?? null) : null;
+  const breakdown = useMemo(() => priceCart(lines, { coupon }), [lines, coupon]);
+
+  return {
+    lines,
+    breakdown,
+    couponCode,
+    couponError: couponCode && couponQuery.isError ? getCouponErrorMessage(couponQuery.error) : null,
+    isValidatingCoupon: couponQuery.isFetching,
+  };
+};
+
+// Attaches a code to the cart only once the server has accepted it.
+export const useApplyCouponMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, CouponError, string>({
+    mutationFn: async (input) => {
+      const code = normalizeCouponCode(input);
+      const { items } = useCartStore.getState();
+      const lines = Object.entries(items).map(([key, entry]) => ({ key, ...entry }));
+      await queryClient.fetchQuery(couponQueryOptions(code, lines));
+      useCartStore.getState().setCouponCode(code);
+    },
+  });
+};
@@ -0,0 +1,85 @@
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import {
+  Order,
+  OrdersPage,
+  cancelOrder,
+  createOrder,
+  fetchOrder,
+  fetchOrdersPage,
+  requestReturn,
+} from '../services/orders';
+import { PaymentStatus, payForOrder } from '../services/payments';
+import { queryKeys } from '../services/queryClient';
+
+export const useInfiniteOrdersQuery = () =>
+  useInfiniteQuery({
+    queryKey: queryKeys.orderPages,
+    initialPageParam: 1,
+    queryFn: ({ pageParam }) => fetchOrdersPage({ page: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextPage ?? undefined,
+  });
+
+export const useOrderQuery = (orderId: string) =>
+  useQuery({
+    queryKey: queryKeys.order(orderId),
+    queryFn: () => fetchOrder(orderId),
+    enabled: Boolean(orderId),
+  });
+
+export const usePlaceOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createOrder,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+  });
+};
+
+export const usePayOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  const setPaymentStatus = (orderId: string, paymentStatus: PaymentStatus) => {
+    const update = (order: Order) => (order.id === orderId ? { ...order, paymentStatus } : order);
+    queryClient.setQueryData<Order>(queryKeys.order(orderId), (order) => order && update(order));
+    queryClient.setQueryData<InfiniteData<OrdersPage>>(queryKeys.orderPages, (data) =>
+      data
+        ? {
+            ...data,
+            pages: data.pages.map((page) => ({ ...page, orders: page.orders.map(update) })),
+          }
+        : data
+    );
+  };
+
+  return useMutation({
+    mutationFn: payForOrder,
+    // The settled status is written straight into the cached order and history.
+    // Refetching now could race the server recording it and show "pending" again.
+    onSuccess: (result, { orderId }) => setPaymentStatus(orderId, result.status),
+    onError: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+  });
+};
+
+// Both requests answer with the updated order: show it straight away, then let
+// the history refetch so its card picks up the new status and refund.
+const useOrderUpdateMutation = <TRequest>(mutationFn: (request: TRequest) => Promise<Order>) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.order(order.id), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orderPages });
+    },
+  });
+};
+
+export const useCancelOrderMutation = () => useOrderUpdateMutation(cancelOrder);
+
+export const useRequestReturnMutation = () => useOrderUpdateMutation(requestReturn);
@@ -0,0 +1,115 @@
+import {
+  InfiniteData,
+  QueryClient,
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import {
+  PRODUCTS_PAGE_SIZE,
+  ProductsPage,
+  fetchProduct,
+  fetchProducts,
+  fetchProductsPage,
+  paginateProducts,
+  searchProducts,
+} from '../services/products';
+import { queryKeys } from '../services/queryClient';
+import { CatalogProduct } from '../utils/products';
+import { ProductSearchResult, highlightResults, searchCatalog } from '../utils/search';
+import { DEFAULT_SORT, SortKey, getSortOption, sortProducts } from '../utils/sort';
+
+export const fetchAllProducts = async () => (await fetchProducts()).products;
+
+export const useProductsQuery = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.products,
+    queryFn: fetchAllProducts,
+    enabled,
+  });
+
+export const useInfiniteProductsQuery = (sortKey: SortKey = DEFAULT_SORT) => {
+  const queryClient = useQueryClient();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.productPages(sortKey),
+    initialPageParam: 1,
+    queryFn: async ({ pageParam }) => {
+      const request = {
+        page: pageParam,
+        limit: PRODUCTS_PAGE_SIZE,
+        sort: getSortOption(sortKey).serverParam,
+      };
+      const page = await fetchProductsPage(request);
+      if (page) return page;
+
+      // Backend without a paginated endpoint: page through the cached full list.
+      const products = await queryClient.fetchQuery({
+        queryKey: queryKeys.products,
+        queryFn: fetchAllProducts,
+      });
+      return paginateProducts(sortProducts(products, sortKey), request);
+    },
+    getNextPageParam: (lastPage) => lastPage.nextPage ?? undefined,
+  });
+};
+
+// Any cached catalog query may already hold the product: the full list, the
+// paged grid, search results, or an earlier detail fetch.
+const findCachedProduct = (queryClient: QueryClient, key: string) => {
+  const entries = queryClient.getQueriesData<
+    CatalogProduct[] | ProductSearchResult[] | InfiniteData<ProductsPage> | CatalogProduct
+  >({ queryKey: queryKeys.products });
+
+  for (const [, data] of entries) {
+    if (!data) continue;
+    const candidates: CatalogProduct[] = Array.isArray(data)
+      ? data.map((entry) => ('titleRanges' in entry ? entry.product : entry))
+      : 'pages' in data
+        ? data.pages.flatMap((page) => page.products)
+        : [data];
+    // Deep links may use the sku even when the product is keyed by id.
+    const match = candidates.find((product) => product.key === key || product.sku === key);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Seeds from the catalog cache when the product is already there, so opening
+// a product from the grid renders without a round trip.
+export const useProductQuery = (key: string) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.product(key),
+    queryFn: () => fetchProduct(key),
+    enabled: key.length > 0,
+    initialData: () => findCachedProduct(queryClient, key),
+  });
+};
+
+export const useProductSearchQuery = (query: string) => {
+  const queryClient = useQueryClient();
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.productSearch(trimmed.toLowerCase()),
+    enabled: trimmed.length > 0,
+    placeholderData: keepPreviousData,
+    gcTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const remote = await searchProducts(trimmed);
+      if (remote) {
+        return highlightResults(remote, trimmed);
+      }
+
+      // No server search: match against the whole catalog, not just loaded pages.
+      const products = await queryClient.fetchQuery({
+        queryKey: queryKeys.products,
+        queryFn: fetchAllProducts,
+      });
+      return searchCatalog(products, trimmed);
+    },
+  });
+};
@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchProduct } from '../services/products';
+import { queryKeys } from '../services/queryClient';
+import { useCartStore } from '../store/cartStore';
+import { CatalogProduct } from '../utils/products';
+import { ReorderLine, ReorderOutcome, summarizeReorder } from '../utils/reorder';
+import { fetchAllProducts } from './useProducts';
+
+// Not found, gone, or a backend that only serves /all-products.
+const isDetailUnavailable = (error: unknown) =>
+  axios.isAxiosError(error) && [404, 405, 410, 501].includes(error.response?.status ?? 0);
+
+const matchesLine = (product: CatalogProduct, line: ReorderLine) =>
+  (line.productId !== null && (product.id === line.productId || product.key === line.productId)) ||
+  (line.sku !== null && product.sku === line.sku) ||
+  product.key === line.productKey;
+
+// Puts a past order's items back in the cart at today's price and stock.
+// Lines are matched by id or sku against a fresh copy of the catalog: the
+// cached one may predate a price change or a product being withdrawn. Lines
+// with an id try the detail endpoint first, which saves loading the catalog
+// when every line resolves there.
+export const useReorderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (lines: ReorderLine[]) => {
+      const fromDetail = await Promise.all(
+        lines.map(async (line): Promise<CatalogProduct | null> => {
+          const { productId } = line;
+          if (!productId) return null;
+          try {
+            return await queryClient.fetchQuery({
+              queryKey: queryKeys.product(productId),
+              queryFn: () => fetchProduct(productId),
+              staleTime: 0,
+            });
+          } catch (error) {
+            if (isDetailUnavailable(error)) return null;
+            throw error;
+          }
+        })
+      );
+
+      let catalog: CatalogProduct[] = [];
+      if (fromDetail.some((product) => product === null)) {
+        catalog = await queryClient.fetchQuery({
+          queryKey: queryKeys.products,
+          queryFn: fetchAllProducts,
+          staleTime: 0,
+        });
+      }
+
+      const { addItem } = useCartStore.getState();
+      const outcomes = lines.map((line, index): ReorderOutcome => {
+        // Only a product missing from the catalog itself counts as no longer sold.
+        const product =
+          fromDetail[index] ?? catalog.find((entry) => matchesLine(entry, line)) ?? null;
+        if (!product) return { kind: 'discontinued', line };
+
+        const before = useCartStore.getState().items[product.key]?.quantity ?? 0;
+        const result = addItem(product.key, product, line.quantity);
+        const quantity = result.quantity - before;
+        if (result.ok) return { kind: 'added', line, product, quantity };
+        if (result.reason === 'out_of_stock') return { kind: 'out_of_stock', line, product };
+        return { kind: 'limited', line, product, quantity, reason: result.reason };
+      });
+
+      return summarizeReorder(outcomes);
+    },
+  });
+};
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../services/queryClient';
+import {
+  Subscription,
+  createSubscription,
+  fetchSubscriptions,
+  updateSubscription,
+} from '../services/subscriptions';
+
+export const useSubscriptionsQuery = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.subscriptions,
+    queryFn: fetchSubscriptions,
+    enabled,
+  });
+
+// Swaps in the server's copy so the card updates before the refetch lands.
+const upsertSubscription = (list: Subscription[] | undefined, subscription: Subscription) => {
+  if (!list) return [subscription];
+  const exists = list.some((entry) => entry.id === subscription.id);
+  return exists
+    ? list.map((entry) => (entry.id === subscription.id ? subscription : entry))
+    : [subscription, ...list];
+};
+
+const useSubscriptionMutation = <TRequest>(
+  mutationFn: (request: TRequest) => Promise<Subscription>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (subscription) => {
+      queryClient.setQueryData<Subscription[]>(queryKeys.subscriptions, (list) =>
+        upsertSubscription(list, subscription)
+      );
+      return queryClient.invalidateQueries({ queryKey: queryKeys.subscriptions });
+    },
+  });
+};
+
+export const useCreateSubscriptionMutation = () => useSubscriptionMutation(createSubscription);
+
+export const useUpdateSubscriptionMutation = () => useSubscriptionMutation(updateSubscription);
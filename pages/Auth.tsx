@@ -21,11 +21,18 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { triggerHaptic, triggerSelectionHaptic, triggerNotificationHaptic } from '../utils/haptics';
-
-type AuthMode = 'email' | 'mobile';
+import {
+    AuthError,
+    AuthMode,
+    AuthSession,
+    getAuthErrorMessage,
+    resendOtp,
+    sendOtp,
+    verifyOtp,
+} from '../services/auth';
 
 type AuthPageProps = {
-    onLoginSuccess: () => void;
+    onLoginSuccess: (session: AuthSession) => void;
 };
 
 const { width } = Dimensions.get('window');
@@ -95,15 +102,12 @@ export default function AuthPage({ onLoginSuccess }: AuthPageProps) {
         try {
             setIsSending(true);
 
-            // TODO: call your backend here
-            // await api.sendOtp({ mode, email, mobile })
-
-            // Simulate network
-            await new Promise((r) => setTimeout(r, 700));
+            const request = { mode, email, mobile };
+            const { resendAfterSeconds } = showOtpInput ? await resendOtp(request) : await sendOtp(request);
 
             setShowOtpInput(true);
             setOtp('');
-            setResendSeconds(30);
+            setResendSeconds(resendAfterSeconds);
 
             triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
 
@@ -111,7 +115,10 @@ export default function AuthPage({ onLoginSuccess }: AuthPageProps) {
             requestAnimationFrame(() => otpRef.current?.focus());
         } catch (e) {
             triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
-            setError('Failed to send OTP. Please try again.');
+            setError(getAuthErrorMessage(e));
+            if (e instanceof AuthError && e.code === 'RATE_LIMITED' && e.retryAfterSeconds) {
+                setResendSeconds(e.retryAfterSeconds);
+            }
         } finally {
             setIsSending(false);
         }
@@ -130,15 +137,16 @@ export default function AuthPage({ onLoginSuccess }: AuthPageProps) {
         try {
             setIsVerifying(true);
 
-            // TODO: verify OTP with backend
-            // await api.verifyOtp({ mode, email, mobile, otp })
-
-            await new Promise((r) => setTimeout(r, 650));
+            const session = await verifyOtp({ mode, email, mobile, otp });
             triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
-            onLoginSuccess();
+            onLoginSuccess(session);
         } catch (e) {
             triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
-            setError('Invalid OTP. Please try again.');
+            setError(getAuthErrorMessage(e));
+            if (e instanceof AuthError && e.code === 'OTP_EXPIRED') {
+                setOtp('');
+                setResendSeconds(0);
+            }
         } finally {
             setIsVerifying(false);
         }
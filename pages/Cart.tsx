@@ -1,5 +1,6 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback } from 'react';
 import {
+  ActivityIndicator,
   FlatList,
   Image,
   StyleSheet,
@@ -12,34 +13,48 @@ import * as Haptics from 'expo-haptics';
 import { BlurView } from 'expo-blur';
 import { triggerHaptic, triggerNotificationHaptic, triggerSelectionHaptic } from '../utils/haptics';
 import {
-  Product,
+  CatalogProduct,
+  getLowStockHint,
   getProductImages,
-  getProductPrice,
+  getProductQuantityLimit,
   getProductTitle,
 } from '../utils/products';
-import { useCartStore } from '../store/cartStore';
+import { PricedLine, formatPaise } from '../utils/pricing';
+import CouponField from '../components/cart/CouponField';
+import PriceBreakdownCard from '../components/cart/PriceBreakdownCard';
+import { useCartPricing } from '../hooks/useCartPricing';
+import {
+  CartNotice,
+  getCartLimitMessage,
+  selectCartHydrated,
+  useCartStore,
+} from '../store/cartStore';
 
 const LIST_BOTTOM_GUTTER = 112;
 
-export default function CartPage() {
-  const itemsMap = useCartStore((state) => state.items);
+type CartPageProps = {
+  onCheckout?: () => void;
+};
+
+export default function CartPage({ onCheckout }: CartPageProps) {
+  const hasHydrated = useCartStore(selectCartHydrated);
+  const notices = useCartStore((state) => state.notices);
+  const dismissNotices = useCartStore((state) => state.dismissNotices);
   const clearCart = useCartStore((state) => state.clear);
   const incrementItem = useCartStore((state) => state.incrementItem);
   const decrementItem = useCartStore((state) => state.decrementItem);
   const removeItem = useCartStore((state) => state.removeItem);
 
-  const entries = useMemo<CartEntry[]>(() => {
-    return Object.entries(itemsMap).map(([key, entry]) => ({
-      key,
-      product: entry.product,
-      quantity: entry.quantity,
-    }));
-  }, [itemsMap]);
+  const { breakdown, couponCode, couponError, isValidatingCoupon } = useCartPricing();
 
   const handleIncrement = useCallback(
-    (key: string, product: Product) => {
-      triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
-      incrementItem(key, product);
+    (key: string, product: CatalogProduct) => {
+      const result = incrementItem(key, product);
+      if (result.ok) {
+        triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+      } else {
+        triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+      }
     },
     [incrementItem]
   );
@@ -65,21 +80,21 @@ export default function CartPage() {
     clearCart();
   }, [clearCart]);
 
-  const itemCount = entries.reduce((sum, entry) => sum + entry.quantity, 0);
+  const { itemCount } = breakdown;
 
-  const subtotal = useMemo(() => {
-    return entries.reduce((sum, entry) => {
-      const price = getProductPrice(entry.product);
-      if (typeof price === 'number') {
-        return sum + price * entry.quantity;
-      }
-      return sum;
-    }, 0);
-  }, [entries]);
+  // The saved cart is still being read; showing "empty" here would flash.
+  if (!hasHydrated) {
+    return (
+      <View style={styles.emptyState}>
+        <ActivityIndicator color="#ffffff" />
+      </View>
+    );
+  }
 
   if (itemCount === 0) {
     return (
       <View style={styles.emptyState}>
+        {notices.length > 0 && <CartNotices notices={notices} onDismiss={dismissNotices} />}
         <Ionicons name="cart-outline" size={42} color="rgba(255,255,255,0.4)" />
         <Text style={styles.emptyTitle}>Your cart is empty</Text>
         <Text style={styles.emptySubtitle}>
@@ -93,29 +108,32 @@ export default function CartPage() {
   return (
     <View style={styles.container}>
       <FlatList
-        data={entries}
+        data={breakdown.lines}
         keyExtractor={(item, index) => item.key ?? `cart-item-${index}`}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.listContent}
         scrollIndicatorInsets={{ top: 90, bottom: LIST_BOTTOM_GUTTER }}
         ListHeaderComponent={
-          <View style={styles.header}>
-            <View>
-              {/* Title moved to global header */}
-              <Text style={styles.subtitleText}>
-                {itemCount} item{itemCount > 1 ? 's' : ''} · Subtotal ₹{subtotal.toFixed(2)}
-              </Text>
+          <>
+            {notices.length > 0 && <CartNotices notices={notices} onDismiss={dismissNotices} />}
+            <View style={styles.header}>
+              <View>
+                {/* Title moved to global header */}
+                <Text style={styles.subtitleText}>
+                  {itemCount} item{itemCount > 1 ? 's' : ''} · Total {formatPaise(breakdown.totalPaise)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={handleClearCart}
+                style={styles.clearButton}
+                accessibilityRole="button"
+                accessibilityLabel="Clear cart"
+              >
+                <Ionicons name="trash-outline" size={18} color="#fca5a5" />
+                <Text style={styles.clearButtonText}>Clear</Text>
+              </TouchableOpacity>
             </View>
-            <TouchableOpacity
-              onPress={handleClearCart}
-              style={styles.clearButton}
-              accessibilityRole="button"
-              accessibilityLabel="Clear cart"
-            >
-              <Ionicons name="trash-outline" size={18} color="#fca5a5" />
-              <Text style={styles.clearButtonText}>Clear</Text>
-            </TouchableOpacity>
-          </View>
+          </>
         }
         renderItem={({ item, index }) => (
           <CartItem
@@ -126,22 +144,64 @@ export default function CartPage() {
             onRemove={handleRemove}
           />
         )}
-        ListFooterComponent={<View style={{ height: LIST_BOTTOM_GUTTER }} />}
+        ListFooterComponent={
+          <View style={[styles.footer, { paddingBottom: LIST_BOTTOM_GUTTER }]}>
+            <CouponField
+              appliedCode={couponCode}
+              coupon={breakdown.coupon}
+              issue={couponError ?? breakdown.couponIssue}
+              isValidating={isValidatingCoupon}
+            />
+            <PriceBreakdownCard breakdown={breakdown} />
+            {onCheckout && (
+              <TouchableOpacity
+                onPress={() => {
+                  triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+                  onCheckout();
+                }}
+                style={styles.checkoutButton}
+                accessibilityRole="button"
+                activeOpacity={0.85}
+              >
+                <Text style={styles.checkoutButtonText}>Proceed to checkout</Text>
+                <Ionicons name="arrow-forward" size={18} color="#0C2B4E" />
+              </TouchableOpacity>
+            )}
+          </View>
+        }
       />
     </View>
   );
 }
 
-type CartEntry = {
-  key: string;
-  product: Product;
-  quantity: number;
-};
+function CartNotices({ notices, onDismiss }: { notices: CartNotice[]; onDismiss: () => void }) {
+  return (
+    <View style={styles.noticeCard}>
+      <View style={styles.noticeHeader}>
+        <Ionicons name="information-circle" size={18} color="#fcd34d" />
+        <Text style={styles.noticeTitle}>Items updated</Text>
+        <TouchableOpacity
+          onPress={onDismiss}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityRole="button"
+          accessibilityLabel="Dismiss cart updates"
+        >
+          <Ionicons name="close" size={18} color="rgba(255,255,255,0.7)" />
+        </TouchableOpacity>
+      </View>
+      {notices.map((notice) => (
+        <Text key={`${notice.kind}:${notice.key}`} style={styles.noticeText}>
+          {notice.message}
+        </Text>
+      ))}
+    </View>
+  );
+}
 
 type CartItemProps = {
-  entry: CartEntry;
+  entry: PricedLine;
   index: number;
-  onIncrement: (key: string, product: Product) => void;
+  onIncrement: (key: string, product: CatalogProduct) => void;
   onDecrement: (key: string) => void;
   onRemove: (key: string) => void;
 };
@@ -157,11 +217,13 @@ function CartItem({
   const images = getProductImages(product);
   const imageUri = images[0] ?? null;
   const title = getProductTitle(product, index);
-  const price = getProductPrice(product);
   const lineTotal =
-    typeof price === 'number' ? (price * quantity).toFixed(2) : null;
+    entry.unitPricePaise !== null ? formatPaise(entry.subtotalPaise) : null;
   const unitPrice =
-    typeof price === 'number' ? price.toFixed(2) : null;
+    entry.unitPricePaise !== null ? formatPaise(entry.unitPricePaise) : null;
+  const limit = getProductQuantityLimit(product);
+  const atLimit = quantity >= limit.max;
+  const stockHint = atLimit ? getCartLimitMessage(limit.reason, limit.max) : getLowStockHint(product);
 
   return (
     <BlurView intensity={20} tint="dark" style={styles.card}>
@@ -179,12 +241,12 @@ function CartItem({
           </Text>
           {lineTotal && (
             <View style={styles.priceTag}>
-              <Text style={styles.priceTagText}>₹{lineTotal}</Text>
+              <Text style={styles.priceTagText}>{lineTotal}</Text>
             </View>
           )}
         </View>
         {unitPrice && (
-          <Text style={styles.unitPrice}>₹{unitPrice} each</Text>
+          <Text style={styles.unitPrice}>{unitPrice} each</Text>
         )}
         <View style={styles.quantityRow}>
           <Text style={styles.quantityLabel}>Quantity</Text>
@@ -200,16 +262,18 @@ function CartItem({
             </TouchableOpacity>
             <Text style={styles.quantityText}>{quantity}</Text>
             <TouchableOpacity
-              style={[styles.qtyButton, styles.qtyButtonRight]}
+              style={[styles.qtyButton, styles.qtyButtonRight, atLimit && styles.qtyButtonDisabled]}
               onPress={() => onIncrement(key, product)}
               accessibilityRole="button"
               accessibilityLabel="Increase quantity"
+              accessibilityState={{ disabled: atLimit }}
               activeOpacity={0.8}
             >
               <Ionicons name="add" size={18} color="#fff" />
             </TouchableOpacity>
           </View>
         </View>
+        {stockHint && <Text style={styles.stockHint}>{stockHint}</Text>}
       </View>
       <TouchableOpacity
         onPress={() => onRemove(key)}
@@ -323,6 +387,12 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.6)',
     fontWeight: '500',
   },
+  stockHint: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fcd34d',
+  },
   quantityRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -343,6 +413,9 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     backgroundColor: 'rgba(255,255,255,0.0)',
   },
+  qtyButtonDisabled: {
+    opacity: 0.35,
+  },
   qtyButtonLeft: {
     borderRightWidth: 1,
     borderRightColor: 'rgba(255,255,255,0.2)',
@@ -367,6 +440,51 @@ const styles = StyleSheet.create({
   removeButton: {
     padding: 4,
   },
+  noticeCard: {
+    alignSelf: 'stretch',
+    gap: 6,
+    padding: 14,
+    marginBottom: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(252, 211, 77, 0.35)',
+    backgroundColor: 'rgba(252, 211, 77, 0.1)',
+  },
+  noticeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  noticeTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fcd34d',
+  },
+  noticeText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  footer: {
+    gap: 12,
+    marginTop: 4,
+  },
+  checkoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingVertical: 16,
+    borderRadius: 16,
+    backgroundColor: '#e0f2fe',
+  },
+  checkoutButtonText: {
+    color: '#0C2B4E',
+    fontSize: 16,
+    fontWeight: '700',
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
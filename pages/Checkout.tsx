@@ -0,0 +1,556 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import * as Haptics from 'expo-haptics';
+import PriceBreakdownCard from '../components/cart/PriceBreakdownCard';
+import CheckoutProgress from '../components/checkout/CheckoutProgress';
+import SelectableCard from '../components/checkout/SelectableCard';
+import SlotPicker from '../components/checkout/SlotPicker';
+import { useAddressesQuery } from '../hooks/useAddresses';
+import { useCartPricing } from '../hooks/useCartPricing';
+import { usePayOrderMutation, usePlaceOrderMutation } from '../hooks/useOrders';
+import { PlacedOrder, getOrderErrorMessage } from '../services/orders';
+import { PAYMENT_STATUS_LABELS, isPaymentRetryable } from '../services/payments';
+import { useCartStore } from '../store/cartStore';
+import { formatAddressLines, getDefaultAddress } from '../utils/address';
+import {
+  DeliverySlot,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  createIdempotencyKey,
+  getDeliverySlots,
+  getOrderSignature,
+} from '../utils/checkout';
+import { formatPaise, toPaise } from '../utils/pricing';
+import { triggerHaptic, triggerNotificationHaptic } from '../utils/haptics';
+
+const LIST_BOTTOM_GUTTER = 112;
+
+const STEPS = ['Address', 'Delivery', 'Summary', 'Payment'] as const;
+
+const PAYMENT_ICONS: Record<PaymentMethod, keyof typeof Ionicons.glyphMap> = {
+  upi: 'phone-portrait-outline',
+  card: 'card-outline',
+  netbanking: 'business-outline',
+  cod: 'cash-outline',
+};
+
+type PlacedOrderDetails = {
+  order: PlacedOrder;
+  slot: DeliverySlot;
+  addressLabel: string;
+  total: number;
+  paymentReason?: string;
+};
+
+type CheckoutPageProps = {
+  onContinueShopping?: () => void;
+  onViewOrders?: () => void;
+};
+
+export default function CheckoutPage({ onContinueShopping, onViewOrders }: CheckoutPageProps) {
+  const addressesQuery = useAddressesQuery();
+  const addresses = addressesQuery.data ?? [];
+  const placeOrder = usePlaceOrderMutation();
+  const payOrder = usePayOrderMutation();
+
+  const { lines, breakdown: pricing, couponCode } = useCartPricing();
+  const slots = useMemo(() => getDeliverySlots(), []);
+
+  const [stepIndex, setStepIndex] = useState(0);
+  // The account's addresses load after mount; until one is picked, the default is.
+  const [pickedAddressId, setAddressId] = useState<string | null>(null);
+  const [slotId, setSlotId] = useState<string | null>(() => slots[0]?.id ?? null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
+  const [placed, setPlaced] = useState<PlacedOrderDetails | null>(null);
+
+  const addressId = pickedAddressId ?? getDefaultAddress(addresses)?.id ?? null;
+  const address = addresses.find((entry) => entry.id === addressId) ?? null;
+  const slot = slots.find((entry) => entry.id === slotId) ?? null;
+
+  // One key per distinct order: retrying the same order reuses it, but any
+  // change to what is being ordered makes it a new attempt.
+  const orderCouponCode = pricing.coupon ? couponCode : null;
+  const orderSignature = getOrderSignature({
+    lines,
+    couponCode: orderCouponCode,
+    addressId,
+    slotId,
+    paymentMethod,
+  });
+  const idempotencyKey = useRef(createIdempotencyKey());
+  useEffect(() => {
+    idempotencyKey.current = createIdempotencyKey();
+  }, [orderSignature]);
+
+  const step = STEPS[stepIndex];
+  const canContinue =
+    !placeOrder.isPending &&
+    (step === 'Address'
+      ? Boolean(address)
+      : step === 'Delivery'
+        ? Boolean(slot)
+        : step === 'Summary'
+          ? lines.length > 0
+          : Boolean(paymentMethod));
+
+  const handlePlaceOrder = async () => {
+    if (!address || !slot || !paymentMethod || lines.length === 0) return;
+    triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      const order = await placeOrder.mutateAsync({
+        lines,
+        address,
+        slot,
+        paymentMethod,
+        pricing,
+        // Only sent while it is actually discounting; the server re-checks it.
+        couponCode: orderCouponCode,
+        idempotencyKey: idempotencyKey.current,
+      });
+      // Only now is it safe to drop the cart; a failed attempt keeps it for a retry.
+      useCartStore.getState().clear();
+      const details = { order, slot, addressLabel: address.label, total: order.total ?? pricing.totalPaise / 100 };
+      setPlaced(details);
+      if (order.paymentStatus === 'pending') {
+        await collectPayment(details);
+      } else {
+        triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch {
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // The order already exists at this point; a failed payment leaves it
+  // awaiting payment and can be retried from the confirmation screen.
+  const collectPayment = async ({ order, total }: PlacedOrderDetails) => {
+    try {
+      const result = await payOrder.mutateAsync({
+        orderId: order.id,
+        method: order.paymentMethod,
+        amount: total,
+      });
+      setPlaced((current) =>
+        current && {
+          ...current,
+          order: { ...current.order, paymentStatus: result.status },
+          paymentReason: result.reason,
+        }
+      );
+      triggerNotificationHaptic(
+        result.status === 'paid'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      );
+    } catch {
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleContinue = () => {
+    if (!canContinue) return;
+    if (step === 'Payment') {
+      void handlePlaceOrder();
+      return;
+    }
+    triggerHaptic();
+    setStepIndex((index) => index + 1);
+  };
+
+  const handleBack = () => {
+    if (stepIndex === 0 || placeOrder.isPending) return;
+    triggerHaptic();
+    placeOrder.reset();
+    setStepIndex((index) => index - 1);
+  };
+
+  if (placed) {
+    const { paymentStatus } = placed.order;
+    const paymentSettled = paymentStatus === 'paid' || paymentStatus === 'pay_on_delivery';
+    return (
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={[styles.content, styles.centeredContent]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.confirmIcon, !paymentSettled && styles.confirmIconPending]}>
+          <Ionicons
+            name={paymentSettled ? 'checkmark' : 'time-outline'}
+            size={40}
+            color="#0C2B4E"
+          />
+        </View>
+        <Text style={styles.confirmTitle}>
+          {paymentSettled ? 'Order placed' : 'Awaiting payment'}
+        </Text>
+        <Text style={styles.confirmSubtitle}>Order #{placed.order.id}</Text>
+
+        <BlurView intensity={20} tint="dark" style={styles.card}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Delivery</Text>
+            <Text style={styles.detailValue}>
+              {placed.slot.dayLabel}, {placed.slot.window}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Deliver to</Text>
+            <Text style={styles.detailValue}>{placed.addressLabel}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Total</Text>
+            <Text style={styles.detailValue}>{formatPaise(toPaise(placed.total))}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Payment</Text>
+            {payOrder.isPending ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.detailValue}>{PAYMENT_STATUS_LABELS[paymentStatus]}</Text>
+            )}
+          </View>
+        </BlurView>
+
+        {!payOrder.isPending && isPaymentRetryable(paymentStatus) && (
+          <View style={styles.section}>
+            <View style={styles.errorBanner}>
+              <Ionicons name="alert-circle-outline" size={18} color="#fecaca" />
+              <Text style={styles.errorText}>
+                {payOrder.isError
+                  ? getOrderErrorMessage(payOrder.error)
+                  : (placed.paymentReason ?? 'Your order is saved. Complete the payment to confirm it.')}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => void collectPayment(placed)}>
+              <Text style={styles.primaryButtonText}>Retry payment</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.confirmActions}>
+          {onViewOrders && (
+            <TouchableOpacity
+              style={paymentSettled ? styles.primaryButton : styles.secondaryButton}
+              onPress={onViewOrders}
+              disabled={payOrder.isPending}
+            >
+              <Text style={paymentSettled ? styles.primaryButtonText : styles.secondaryButtonText}>
+                View orders
+              </Text>
+            </TouchableOpacity>
+          )}
+          {onContinueShopping && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={onContinueShopping}
+              disabled={payOrder.isPending}
+            >
+              <Text style={styles.secondaryButtonText}>Continue shopping</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    );
+  }
+
+  if (lines.length === 0) {
+    return (
+      <View style={[styles.container, styles.emptyState]}>
+        <Ionicons name="cart-outline" size={48} color="rgba(255,255,255,0.5)" />
+        <Text style={styles.emptyTitle}>Your cart is empty</Text>
+        <Text style={styles.emptySubtitle}>Add something to your cart to check out.</Text>
+        {onContinueShopping && (
+          <TouchableOpacity style={styles.primaryButton} onPress={onContinueShopping}>
+            <Text style={styles.primaryButtonText}>Browse the shop</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <CheckoutProgress steps={[...STEPS]} currentIndex={stepIndex} />
+
+        {step === 'Address' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Deliver to</Text>
+            {addressesQuery.isPending ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : addressesQuery.isError ? (
+              <TouchableOpacity
+                style={styles.errorBanner}
+                onPress={() => void addressesQuery.refetch()}
+                accessibilityRole="button"
+              >
+                <Ionicons name="alert-circle" size={18} color="#fecaca" />
+                <Text style={styles.errorText}>
+                  Couldn't load your saved addresses. Tap to try again.
+                </Text>
+              </TouchableOpacity>
+            ) : addresses.length === 0 ? (
+              <Text style={styles.hint}>Add a delivery address from your profile to continue.</Text>
+            ) : (
+              addresses.map((entry) => (
+                <SelectableCard
+                  key={entry.id}
+                  title={entry.label}
+                  lines={formatAddressLines(entry)}
+                  selected={entry.id === addressId}
+                  onPress={() => setAddressId(entry.id)}
+                  icon="location-outline"
+                  badge={entry.isDefault ? <Text style={styles.badge}>Default</Text> : undefined}
+                />
+              ))
+            )}
+          </View>
+        )}
+
+        {step === 'Delivery' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Delivery slot</Text>
+            <SlotPicker slots={slots} selectedId={slotId} onSelect={(entry) => setSlotId(entry.id)} />
+          </View>
+        )}
+
+        {step === 'Summary' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Order summary</Text>
+            <PriceBreakdownCard breakdown={pricing} showLines />
+            {address && slot && (
+              <Text style={styles.hint}>
+                Delivering to {address.label} · {slot.dayLabel}, {slot.window}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {step === 'Payment' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Payment method</Text>
+            {PAYMENT_METHODS.map((option) => (
+              <SelectableCard
+                key={option.key}
+                title={option.label}
+                lines={[option.description]}
+                selected={option.key === paymentMethod}
+                onPress={() => setPaymentMethod(option.key)}
+                icon={PAYMENT_ICONS[option.key]}
+              />
+            ))}
+            {placeOrder.isError && (
+              <View style={styles.errorBanner}>
+                <Ionicons name="alert-circle-outline" size={18} color="#fecaca" />
+                <Text style={styles.errorText}>{getOrderErrorMessage(placeOrder.error)}</Text>
+              </View>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <BlurView intensity={30} tint="dark" style={styles.actionBar}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.actionButton, stepIndex === 0 && styles.buttonHidden]}
+          onPress={handleBack}
+          disabled={stepIndex === 0 || placeOrder.isPending}
+        >
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.actionButton, !canContinue && styles.buttonDisabled]}
+          onPress={handleContinue}
+          disabled={!canContinue}
+          accessibilityState={{ disabled: !canContinue, busy: placeOrder.isPending }}
+        >
+          {placeOrder.isPending ? (
+            <ActivityIndicator color="#0C2B4E" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {step !== 'Payment'
+                ? 'Continue'
+                : paymentMethod === 'cod'
+                  ? `Place order · ${formatPaise(pricing.totalPaise)}`
+                  : `Pay ${formatPaise(pricing.totalPaise)}`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </BlurView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the absolute header
+    paddingBottom: LIST_BOTTOM_GUTTER + 80, // Room for the action bar
+    paddingHorizontal: 20,
+    gap: 24,
+  },
+  centeredContent: {
+    alignItems: 'stretch',
+    gap: 16,
+    paddingBottom: LIST_BOTTOM_GUTTER,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.65)',
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#0C2B4E',
+    backgroundColor: '#e0f2fe',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(239,68,68,0.15)',
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.4)',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#fecaca',
+  },
+  actionBar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: LIST_BOTTOM_GUTTER - 8,
+    flexDirection: 'row',
+    gap: 12,
+    padding: 10,
+    borderRadius: 18,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+  },
+  actionButton: {
+    flex: 1,
+  },
+  buttonHidden: {
+    opacity: 0,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    backgroundColor: '#e0f2fe',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  detailValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    textAlign: 'right',
+  },
+  confirmIcon: {
+    alignSelf: 'center',
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#e0f2fe',
+  },
+  confirmIconPending: {
+    backgroundColor: '#fde68a',
+  },
+  confirmTitle: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  confirmSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+  },
+  confirmActions: {
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,5 @@
 import {
+  ActivityIndicator,
   FlatList,
   Image,
   StyleSheet,
@@ -11,14 +12,15 @@ import { useMemo } from 'react';
 import * as Haptics from 'expo-haptics';
 import { BlurView } from 'expo-blur';
 import { triggerHaptic, triggerNotificationHaptic, triggerSelectionHaptic } from '../utils/haptics';
-import { useFavoritesStore } from '../store/favoritesStore';
-import { Product, getProductImages, getProductTitle, getProductPrice } from '../utils/products';
-import { useCartStore } from '../store/cartStore';
+import { selectFavoritesHydrated, useFavoritesStore } from '../store/favoritesStore';
+import { CatalogProduct, getProductImages, getProductTitle, getProductPrice } from '../utils/products';
+import { CartUpdateResult, useCartStore } from '../store/cartStore';
 
 const LIST_BOTTOM_GUTTER = 112;
 
 export default function FavoritesPage() {
   const favoritesMap = useFavoritesStore((state) => state.items);
+  const hasHydrated = useFavoritesStore(selectFavoritesHydrated);
   const removeFavorite = useFavoritesStore((state) => state.removeItem);
   const clearFavorites = useFavoritesStore((state) => state.clear);
   const incrementCartItem = useCartStore((state) => state.incrementItem);
@@ -31,6 +33,14 @@ export default function FavoritesPage() {
     }));
   }, [favoritesMap]);
 
+  if (!hasHydrated) {
+    return (
+      <View style={styles.emptyState}>
+        <ActivityIndicator color="#ffffff" />
+      </View>
+    );
+  }
+
   if (entries.length === 0) {
     return (
       <View style={styles.emptyState}>
@@ -91,14 +101,14 @@ export default function FavoritesPage() {
 
 type FavoriteEntry = {
   key: string;
-  product: Product;
+  product: CatalogProduct;
 };
 
 type FavoriteCardProps = {
   entry: FavoriteEntry;
   index: number;
   onRemove: (key: string) => void;
-  onAddToCart: (key: string, product: Product) => void;
+  onAddToCart: (key: string, product: CatalogProduct) => CartUpdateResult;
   inCart: boolean;
 };
 
@@ -142,8 +152,11 @@ function FavoriteCard({ entry, index, onRemove, onAddToCart, inCart }: FavoriteC
               inCart && styles.iconButtonPrimaryAdded,
             ]}
             onPress={() => {
-              triggerHaptic(Haptics.ImpactFeedbackStyle.Light);
-              onAddToCart(key, product);
+              if (onAddToCart(key, product).ok) {
+                triggerHaptic(Haptics.ImpactFeedbackStyle.Light);
+              } else {
+                triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+              }
             }}
             accessibilityRole="button"
             accessibilityLabel={
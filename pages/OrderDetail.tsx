@@ -0,0 +1,574 @@
+import { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import OrderRequestSheet, { OrderRequestKind } from '../components/orders/OrderRequestSheet';
+import OrderTimeline from '../components/orders/OrderTimeline';
+import { useOrderQuery } from '../hooks/useOrders';
+import { SUPPORT_CONTACT } from '../services/config';
+import { Order } from '../services/orders';
+import { PAYMENT_STATUS_LABELS } from '../services/payments';
+import { PAYMENT_METHODS } from '../utils/checkout';
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TONES,
+  OrderStatusTone,
+  REFUND_STATUS_LABELS,
+  RETURN_STATUS_LABELS,
+  buildOrderTimeline,
+  formatOrderDate,
+  getCancelEligibility,
+  getDeliveredAt,
+  getReturnEligibility,
+} from '../utils/orders';
+import { formatPaise, toPaise } from '../utils/pricing';
+import { triggerHaptic } from '../utils/haptics';
+
+const LIST_BOTTOM_GUTTER = 112;
+
+const TONE_COLORS: Record<OrderStatusTone, string> = {
+  pending: 'rgba(254, 243, 199, 0.2)',
+  active: 'rgba(186, 230, 253, 0.25)',
+  success: 'rgba(220, 252, 231, 0.2)',
+  danger: 'rgba(254, 226, 226, 0.2)',
+  neutral: 'rgba(226, 232, 240, 0.2)',
+};
+
+type SupportAction = {
+  key: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  url: string;
+};
+
+const getSupportActions = (orderId: string): SupportAction[] => {
+  const message = `Hi, I need help with order ${orderId}.`;
+  const actions: SupportAction[] = [];
+  if (SUPPORT_CONTACT.phone) {
+    actions.push({
+      key: 'call',
+      label: 'Call support',
+      icon: 'call-outline',
+      url: `tel:${SUPPORT_CONTACT.phone}`,
+    });
+  }
+  if (SUPPORT_CONTACT.whatsapp) {
+    actions.push({
+      key: 'whatsapp',
+      label: 'Chat on WhatsApp',
+      icon: 'logo-whatsapp',
+      url: `https://wa.me/${SUPPORT_CONTACT.whatsapp}?text=${encodeURIComponent(message)}`,
+    });
+  }
+  if (SUPPORT_CONTACT.email) {
+    actions.push({
+      key: 'email',
+      label: 'Email support',
+      icon: 'mail-outline',
+      url: `mailto:${SUPPORT_CONTACT.email}?subject=${encodeURIComponent(`Order ${orderId}`)}&body=${encodeURIComponent(message)}`,
+    });
+  }
+  return actions;
+};
+
+const openExternal = async (url: string, failureMessage: string) => {
+  triggerHaptic();
+  try {
+    await Linking.openURL(url);
+  } catch {
+    Alert.alert('Unable to open', failureMessage);
+  }
+};
+
+type OrderDetailPageProps = {
+  orderId: string;
+};
+
+export default function OrderDetailPage({ orderId }: OrderDetailPageProps) {
+  const { data: order, isPending, error, refetch } = useOrderQuery(orderId);
+
+  if (!order) {
+    return (
+      <View style={styles.messageWrapper}>
+        {isPending ? (
+          <ActivityIndicator size="large" color="#ffffff" />
+        ) : (
+          <>
+            <Text style={styles.errorText}>
+              {error ? 'Unable to load this order right now.' : 'This order could not be found.'}
+            </Text>
+            <TouchableOpacity onPress={() => refetch()} style={styles.retryButton}>
+              <Text style={styles.retryText}>Try again</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  return <OrderDetailContent order={order} />;
+}
+
+function OrderDetailContent({ order }: { order: Order }) {
+  const timeline = useMemo(
+    () => buildOrderTimeline(order.status, order.statusHistory, order.placedAt),
+    [order.placedAt, order.status, order.statusHistory]
+  );
+  const supportActions = useMemo(() => getSupportActions(order.id), [order.id]);
+  const tone = ORDER_STATUS_TONES[order.status];
+  const paymentMethodLabel =
+    PAYMENT_METHODS.find((method) => method.key === order.paymentMethod)?.label ?? null;
+  const { totals } = order;
+
+  const [requestKind, setRequestKind] = useState<OrderRequestKind | null>(null);
+  // Remembered separately so the sheet keeps its copy while it animates out.
+  const [sheetKind, setSheetKind] = useState<OrderRequestKind>('cancel');
+  const cancelEligibility = getCancelEligibility(order.status);
+  const returnEligibility = getReturnEligibility(
+    order.status,
+    getDeliveredAt(order.statusHistory, order.deliverySlot?.date ?? null),
+    order.returnRequest !== null && order.returnRequest.status !== 'rejected'
+  );
+  const ineligibleReason =
+    (!cancelEligibility.allowed && cancelEligibility.reason) ||
+    (!returnEligibility.allowed && returnEligibility.reason) ||
+    null;
+  const hasRequestSection =
+    cancelEligibility.allowed ||
+    returnEligibility.allowed ||
+    ineligibleReason !== null ||
+    order.returnRequest !== null ||
+    order.refund !== null;
+
+  const openRequest = (kind: OrderRequestKind) => {
+    triggerHaptic();
+    setSheetKind(kind);
+    setRequestKind(kind);
+  };
+
+  return (
+    <>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        scrollIndicatorInsets={{ bottom: LIST_BOTTOM_GUTTER }}
+      >
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.orderId}>Order {order.id}</Text>
+            <Text style={styles.hint}>Placed on {formatOrderDate(order.placedAt)}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: TONE_COLORS[tone] }]}>
+            <Text style={styles.statusText}>{ORDER_STATUS_LABELS[order.status]}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Status</Text>
+          <BlurView intensity={20} tint="dark" style={styles.card}>
+            <OrderTimeline steps={timeline} stopped={tone === 'danger' || tone === 'neutral'} />
+          </BlurView>
+        </View>
+
+        {(order.deliverySlot || order.deliveryAddress) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Delivery</Text>
+            <BlurView intensity={20} tint="dark" style={styles.card}>
+              {order.deliverySlot && (
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Slot</Text>
+                  <Text style={styles.detailValue}>
+                    {formatOrderDate(order.deliverySlot.date)} · {order.deliverySlot.window}
+                  </Text>
+                </View>
+              )}
+              {order.deliveryAddress && (
+                <View style={styles.addressBlock}>
+                  {order.deliveryAddress.label && (
+                    <Text style={styles.addressLabel}>{order.deliveryAddress.label}</Text>
+                  )}
+                  {order.deliveryAddress.lines.map((line) => (
+                    <Text key={line} style={styles.addressLine}>
+                      {line}
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </BlurView>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Items</Text>
+          <BlurView intensity={20} tint="dark" style={styles.card}>
+            {order.items.map((item) => (
+              <View key={item.productKey} style={styles.detailRow}>
+                <Text style={styles.itemTitle} numberOfLines={2}>
+                  {item.quantity} × {item.name}
+                </Text>
+                <Text style={styles.detailValue}>
+                  {item.unitPrice === null
+                    ? '—'
+                    : formatPaise(toPaise(item.unitPrice) * item.quantity)}
+                </Text>
+              </View>
+            ))}
+          </BlurView>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Payment</Text>
+          <BlurView intensity={20} tint="dark" style={styles.card}>
+            {paymentMethodLabel && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Method</Text>
+                <Text style={styles.detailValue}>{paymentMethodLabel}</Text>
+              </View>
+            )}
+            {order.paymentStatus && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Status</Text>
+                <Text style={styles.detailValue}>{PAYMENT_STATUS_LABELS[order.paymentStatus]}</Text>
+              </View>
+            )}
+            {totals && (
+              <>
+                <View style={styles.divider} />
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Subtotal</Text>
+                  <Text style={styles.detailValue}>{formatPaise(totals.subtotalPaise)}</Text>
+                </View>
+                {totals.discountPaise > 0 && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>
+                      {order.couponCode ? `Coupon ${order.couponCode}` : 'Discount'}
+                    </Text>
+                    <Text style={[styles.detailValue, styles.discountValue]}>
+                      {formatPaise(-totals.discountPaise)}
+                    </Text>
+                  </View>
+                )}
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Incl. GST</Text>
+                  <Text style={styles.detailValue}>{formatPaise(totals.taxPaise)}</Text>
+                </View>
+                {totals.depositPaise > 0 && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Can deposit (refundable)</Text>
+                    <Text style={styles.detailValue}>{formatPaise(totals.depositPaise)}</Text>
+                  </View>
+                )}
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Delivery</Text>
+                  <Text style={styles.detailValue}>
+                    {totals.deliveryFeePaise === 0 ? 'Free' : formatPaise(totals.deliveryFeePaise)}
+                  </Text>
+                </View>
+                {totals.roundOffPaise !== 0 && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Round off</Text>
+                    <Text style={styles.detailValue}>{formatPaise(totals.roundOffPaise)}</Text>
+                  </View>
+                )}
+              </>
+            )}
+            <View style={styles.divider} />
+            <View style={styles.detailRow}>
+              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalValue}>
+                {formatPaise(totals ? totals.totalPaise : toPaise(order.total))}
+              </Text>
+            </View>
+          </BlurView>
+          {order.invoiceUrl && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() =>
+                openExternal(
+                  order.invoiceUrl as string,
+                  'The invoice could not be opened. Please try again.'
+                )
+              }
+              accessibilityRole="button"
+            >
+              <Ionicons name="download-outline" size={18} color="#ffffff" />
+              <Text style={styles.secondaryButtonText}>Download invoice</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {hasRequestSection && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Cancellations & returns</Text>
+            {(order.returnRequest || order.refund) && (
+              <BlurView intensity={20} tint="dark" style={styles.card}>
+                {order.returnRequest && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Return</Text>
+                    <Text style={styles.detailValue}>
+                      {RETURN_STATUS_LABELS[order.returnRequest.status]}
+                    </Text>
+                  </View>
+                )}
+                {order.refund && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Refund</Text>
+                    <Text style={styles.detailValue}>
+                      {REFUND_STATUS_LABELS[order.refund.status]}
+                      {order.refund.amount !== null
+                        ? ` · ${formatPaise(toPaise(order.refund.amount))}`
+                        : ''}
+                    </Text>
+                  </View>
+                )}
+              </BlurView>
+            )}
+            {cancelEligibility.allowed && (
+              <TouchableOpacity
+                style={[styles.secondaryButton, styles.dangerButton]}
+                onPress={() => openRequest('cancel')}
+                accessibilityRole="button"
+              >
+                <Ionicons name="close-circle-outline" size={18} color="#fecaca" />
+                <Text style={[styles.secondaryButtonText, styles.dangerButtonText]}>
+                  Cancel order
+                </Text>
+              </TouchableOpacity>
+            )}
+            {returnEligibility.allowed && (
+              <>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => openRequest('return')}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="return-down-back-outline" size={18} color="#ffffff" />
+                  <Text style={styles.secondaryButtonText}>Return items</Text>
+                </TouchableOpacity>
+                {returnEligibility.deadline && (
+                  <Text style={styles.hint}>
+                    Returns accepted until{' '}
+                    {formatOrderDate(returnEligibility.deadline.toISOString())}.
+                  </Text>
+                )}
+              </>
+            )}
+            {ineligibleReason && <Text style={styles.hint}>{ineligibleReason}</Text>}
+          </View>
+        )}
+
+        {supportActions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Need help?</Text>
+            <BlurView intensity={20} tint="dark" style={styles.card}>
+              {supportActions.map((action, index) => (
+                <TouchableOpacity
+                  key={action.key}
+                  style={[styles.supportRow, index > 0 && styles.supportRowDivided]}
+                  onPress={() =>
+                    openExternal(
+                      action.url,
+                      'No app on this device can handle that. Please try another option.'
+                    )
+                  }
+                  accessibilityRole="button"
+                >
+                  <Ionicons name={action.icon} size={20} color="#ffffff" />
+                  <Text style={styles.supportLabel}>{action.label}</Text>
+                  <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.5)" />
+                </TouchableOpacity>
+              ))}
+            </BlurView>
+          </View>
+        )}
+      </ScrollView>
+
+      <OrderRequestSheet
+        visible={requestKind !== null}
+        kind={sheetKind}
+        orderId={order.id}
+        onClose={() => setRequestKind(null)}
+        onSubmitted={() => setRequestKind(null)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the absolute header
+    paddingBottom: LIST_BOTTOM_GUTTER + 24,
+    paddingHorizontal: 20,
+    gap: 24,
+  },
+  messageWrapper: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#fca5a5',
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  retryText: {
+    color: '#ffffff',
+    fontWeight: '700',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  orderId: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.65)',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  detailValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    textAlign: 'right',
+  },
+  discountValue: {
+    color: '#86efac',
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.85)',
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  addressBlock: {
+    gap: 2,
+  },
+  addressLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  addressLine: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.85)',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    minHeight: 48,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  dangerButton: {
+    borderColor: 'rgba(239,68,68,0.5)',
+  },
+  dangerButtonText: {
+    color: '#fecaca',
+  },
+  supportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  supportRowDivided: {
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(255,255,255,0.2)',
+  },
+  supportLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,398 @@
+import { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { BlurView } from 'expo-blur';
+import { triggerHaptic, triggerNotificationHaptic, triggerSelectionHaptic } from '../utils/haptics';
+import { useProductQuery } from '../hooks/useProducts';
+import {
+  getProductDescription,
+  getLowStockHint,
+  getProductDiscountPercent,
+  getProductImages,
+  getProductPrice,
+  getProductQuantityLimit,
+  getProductSavings,
+  getProductTitle,
+} from '../utils/products';
+import { getCartLimitMessage, useCartStore } from '../store/cartStore';
+import { useFavoritesStore } from '../store/favoritesStore';
+import ImageGallery from '../components/product/ImageGallery';
+
+const LIST_BOTTOM_GUTTER = 112;
+const CONTENT_PADDING = 20;
+const { width } = Dimensions.get('window');
+const GALLERY_WIDTH = width - CONTENT_PADDING * 2;
+const GALLERY_HEIGHT = GALLERY_WIDTH;
+
+type ProductDetailPageProps = {
+  productKey: string;
+};
+
+export default function ProductDetailPage({ productKey }: ProductDetailPageProps) {
+  const { data: product, isPending, error, refetch } = useProductQuery(productKey);
+  const [galleryZoomed, setGalleryZoomed] = useState(false);
+  // Deep links may name the product by sku; the cart and favourites always use
+  // the loaded product's own key so it maps to the same line everywhere.
+  const itemKey = product?.key ?? productKey;
+  const quantity = useCartStore((state) => state.items[itemKey]?.quantity ?? 0);
+  const incrementItem = useCartStore((state) => state.incrementItem);
+  const decrementItem = useCartStore((state) => state.decrementItem);
+  const isFavorite = useFavoritesStore((state) => Boolean(state.items[itemKey]));
+  const toggleFavorite = useFavoritesStore((state) => state.toggleItem);
+
+  const handleIncrement = useCallback(() => {
+    if (!product) return;
+    const result = incrementItem(product.key, product);
+    if (result.ok) {
+      triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+    } else {
+      triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+    }
+  }, [incrementItem, product]);
+
+  const handleDecrement = useCallback(() => {
+    triggerSelectionHaptic();
+    decrementItem(itemKey);
+  }, [decrementItem, itemKey]);
+
+  const handleToggleFavorite = useCallback(() => {
+    if (!product) return;
+    triggerSelectionHaptic();
+    toggleFavorite(product.key, product);
+  }, [product, toggleFavorite]);
+
+  if (!product) {
+    return (
+      <View style={styles.messageWrapper}>
+        {isPending ? (
+          <ActivityIndicator size="large" color="#ffffff" />
+        ) : (
+          <>
+            <Text style={styles.errorText}>
+              {error ? 'Unable to load this product right now.' : 'This product is no longer available.'}
+            </Text>
+            <TouchableOpacity onPress={() => refetch()} style={styles.retryButton}>
+              <Text style={styles.retryText}>Try again</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const title = getProductTitle(product);
+  const price = getProductPrice(product);
+  const discountPercent = getProductDiscountPercent(product);
+  const savings = getProductSavings(product);
+  const limit = getProductQuantityLimit(product);
+  const atLimit = quantity >= limit.max;
+  const lowStockHint = getLowStockHint(product);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      scrollEnabled={!galleryZoomed}
+      showsVerticalScrollIndicator={false}
+      scrollIndicatorInsets={{ bottom: LIST_BOTTOM_GUTTER }}
+    >
+      <View>
+        <ImageGallery
+          images={getProductImages(product)}
+          width={GALLERY_WIDTH}
+          height={GALLERY_HEIGHT}
+          onZoomChange={setGalleryZoomed}
+        />
+        <TouchableOpacity
+          onPress={handleToggleFavorite}
+          style={styles.favoriteButton}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityRole="button"
+          accessibilityLabel={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+          accessibilityState={{ selected: isFavorite }}
+        >
+          <Ionicons
+            name={isFavorite ? 'heart' : 'heart-outline'}
+            size={22}
+            color={isFavorite ? '#dc2626' : '#0f172a'}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.titleBlock}>
+        {product.category && <Text style={styles.category}>{product.category}</Text>}
+        <Text style={styles.title}>{title}</Text>
+        {!product.inStock && <Text style={styles.outOfStock}>Currently out of stock</Text>}
+        {product.inStock && lowStockHint && <Text style={styles.lowStock}>{lowStockHint}</Text>}
+      </View>
+
+      <BlurView intensity={20} tint="dark" style={styles.card}>
+        <View style={styles.priceRow}>
+          {price !== null ? (
+            <Text style={styles.price}>₹{price.toFixed(0)}</Text>
+          ) : (
+            <Text style={styles.priceUnavailable}>Price on request</Text>
+          )}
+          {savings !== null && product.mrp !== null && (
+            <Text style={styles.mrp}>MRP ₹{product.mrp.toFixed(0)}</Text>
+          )}
+        </View>
+        {savings !== null && discountPercent !== null && (
+          <View style={styles.savingsBadge}>
+            <Ionicons name="pricetag" size={14} color="#16a34a" />
+            <Text style={styles.savingsText}>
+              You save ₹{savings.toFixed(0)} ({discountPercent}% off)
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.quantityRow}>
+          <Text style={styles.quantityLabel}>{quantity > 0 ? 'In your cart' : 'Quantity'}</Text>
+          {quantity > 0 ? (
+            <View style={styles.quantityControls}>
+              <TouchableOpacity
+                style={[styles.qtyButton, styles.qtyButtonLeft]}
+                onPress={handleDecrement}
+                accessibilityRole="button"
+                accessibilityLabel="Decrease quantity"
+                activeOpacity={0.8}
+              >
+                <Ionicons name="remove" size={18} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.quantityText}>{quantity}</Text>
+              <TouchableOpacity
+                style={[styles.qtyButton, styles.qtyButtonRight, atLimit && styles.qtyButtonDisabled]}
+                onPress={handleIncrement}
+                accessibilityRole="button"
+                accessibilityLabel="Increase quantity"
+                accessibilityState={{ disabled: atLimit }}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="add" size={18} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              onPress={handleIncrement}
+              style={[styles.addButton, !product.inStock && styles.addButtonDisabled]}
+              disabled={!product.inStock}
+              activeOpacity={0.85}
+              accessibilityRole="button"
+            >
+              <Ionicons name="cart-outline" size={16} color="#0C2B4E" />
+              <Text style={styles.addButtonText}>Add to cart</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {quantity > 0 && atLimit && (
+          <Text style={styles.limitHint}>{getCartLimitMessage(limit.reason, limit.max)}</Text>
+        )}
+      </BlurView>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>About this product</Text>
+        <Text style={styles.description}>{getProductDescription(product)}</Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 140, // Clear the absolute header
+    paddingBottom: LIST_BOTTOM_GUTTER,
+    paddingHorizontal: CONTENT_PADDING,
+    gap: 20,
+  },
+  messageWrapper: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#fca5a5',
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  retryText: {
+    color: '#ffffff',
+    fontWeight: '700',
+  },
+  favoriteButton: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    backgroundColor: 'rgba(255,255,255,0.85)',
+    borderRadius: 22,
+    padding: 8,
+  },
+  titleBlock: {
+    gap: 6,
+  },
+  category: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#38bdf8',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ffffff',
+    lineHeight: 28,
+  },
+  outOfStock: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fca5a5',
+  },
+  lowStock: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fcd34d',
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden', // Needed for BlurView borderRadius
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 10,
+  },
+  price: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  priceUnavailable: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.7)',
+  },
+  mrp: {
+    fontSize: 15,
+    color: 'rgba(255,255,255,0.5)',
+    textDecorationLine: 'line-through',
+  },
+  savingsBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    backgroundColor: '#dcfce7',
+  },
+  savingsText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#166534',
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  quantityLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.7)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  qtyButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  qtyButtonLeft: {
+    borderRightWidth: 1,
+    borderRightColor: 'rgba(255,255,255,0.2)',
+  },
+  qtyButtonRight: {
+    borderLeftWidth: 1,
+    borderLeftColor: 'rgba(255,255,255,0.2)',
+  },
+  qtyButtonDisabled: {
+    opacity: 0.35,
+  },
+  limitHint: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fcd34d',
+    textAlign: 'right',
+  },
+  quantityText: {
+    paddingHorizontal: 18,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 999,
+    backgroundColor: '#e0f2fe',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#0C2B4E',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  section: {
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: 'rgba(255,255,255,0.75)',
+  },
+});
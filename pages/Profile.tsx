@@ -1,6 +1,7 @@
-import type { ComponentType } from 'react';
+import type { ComponentType, ReactElement } from 'react';
 import React, { useCallback, useEffect, useMemo, useReducer, useState, useRef } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Animated,
   FlatList,
@@ -24,7 +25,41 @@ import { BlurView } from 'expo-blur';
 import { LinearGradient } from 'expo-linear-gradient';
 import { triggerHaptic, triggerNotificationHaptic, triggerSelectionHaptic } from '../utils/haptics';
 import { useCartStore } from '../store/cartStore';
-import { Product, getProductImages, getProductPrice, getProductTitle } from '../utils/products';
+import { ContactDetails, UserDetails, useProfileStore } from '../store/profileStore';
+import { Address } from '../utils/address';
+import { CatalogProduct, getProductImages, getProductTitle } from '../utils/products';
+import { PricedLine, formatPaise } from '../utils/pricing';
+import { useCartPricing } from '../hooks/useCartPricing';
+import { useAddressesQuery, useSaveAddressesMutation } from '../hooks/useAddresses';
+import { useInfiniteOrdersQuery } from '../hooks/useOrders';
+import { useReorderMutation } from '../hooks/useReorder';
+import { useSubscriptionsQuery, useUpdateSubscriptionMutation } from '../hooks/useSubscriptions';
+import { ReorderLine } from '../utils/reorder';
+import { getAddressesErrorMessage } from '../services/addresses';
+import { Order, OrderItem } from '../services/orders';
+import {
+  Subscription,
+  SubscriptionAction,
+  getSubscriptionErrorMessage,
+} from '../services/subscriptions';
+import { useFavoritesStore } from '../store/favoritesStore';
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TONES,
+  REFUND_STATUS_LABELS,
+  RETURN_STATUS_LABELS,
+  OrderStatusTone,
+  formatOrderDate,
+} from '../utils/orders';
+import {
+  SUBSCRIPTION_STATUS_LABELS,
+  SUBSCRIPTION_STATUS_TONES,
+  describeFrequency,
+  formatDateKey,
+  isManageableSubscriptionStatus,
+} from '../utils/subscriptions';
+import PriceBreakdownCard from '../components/cart/PriceBreakdownCard';
+import SubscriptionSheet from '../components/subscriptions/SubscriptionSheet';
 import * as Haptics from 'expo-haptics';
 
 // Or react-native Image if that was used. Checking Cart.tsx... it used react-native Image. I should stick to that or standard. Cart.tsx used: import { Image } from 'react-native';
@@ -32,150 +67,26 @@ import * as Haptics from 'expo-haptics';
 // I need to import Image from react-native.
 
 
-type TabKey = 'orders' | 'favorites' | 'cart' | 'about';
-
-type OrderItem = {
-  sku: string;
-  name: string;
-  quantity: number;
-  price: number;
-  favorite?: boolean;
-};
-
-type Order = {
-  id: string;
-  placedOn: string;
-  status: 'Delivered' | 'Processing' | 'Cancelled';
-  items: OrderItem[];
-  total: number;
-};
-
-type Address = {
-  id: string;
-  label: string;
-  line1: string;
-  line2?: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  isDefault: boolean;
-};
+type TabKey = 'orders' | 'subscriptions' | 'favorites' | 'cart' | 'about';
 
 type AddressTextField = 'label' | 'line1' | 'line2' | 'city' | 'state' | 'postalCode';
 
-type UserDetails = {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  altPhone?: string;
-  addresses: Address[];
-};
-
 type FavouriteEntry = { item: OrderItem; orderId: string; placedOn: string };
 
 type ProfileState = {
   activeTab: TabKey;
-  orders: Order[];
-  user: UserDetails;
 };
 
-type ProfileAction =
-  | { type: 'SET_TAB'; payload: TabKey }
-  | { type: 'UPDATE_USER'; payload: UserDetails };
+type ProfileAction = { type: 'SET_TAB'; payload: TabKey };
 
 const initialState: ProfileState = {
   activeTab: 'orders',
-  orders: [
-    {
-      id: 'AQA-1201',
-      placedOn: '2024-07-15',
-      status: 'Delivered',
-      total: 620,
-      items: [
-        {
-          sku: 'HYDRO-20L',
-          name: 'AquaMax 20L Water Can',
-          quantity: 2,
-          price: 120,
-          favorite: true,
-        },
-        {
-          sku: 'SOFT-XL',
-          name: 'HydroSoft Water Softener',
-          quantity: 1,
-          price: 380,
-          favorite: true,
-        },
-      ],
-    },
-    {
-      id: 'AQA-1174',
-      placedOn: '2024-06-28',
-      status: 'Delivered',
-      total: 450,
-      items: [
-        {
-          sku: 'MINI-DISP',
-          name: 'Mini Countertop Dispenser',
-          quantity: 1,
-          price: 450,
-        },
-      ],
-    },
-    {
-      id: 'AQA-1103',
-      placedOn: '2024-05-12',
-      status: 'Processing',
-      total: 280,
-      items: [
-        {
-          sku: 'FILTER-SET',
-          name: 'Universal RO Filter Kit',
-          quantity: 2,
-          price: 140,
-          favorite: true,
-        },
-      ],
-    },
-  ],
-  user: {
-    firstName: 'Anika',
-    lastName: 'Sridhar',
-    email: 'anika.s@aquakart.co',
-    phone: '+91 90876 54321',
-    altPhone: '+91 99887 65432',
-    addresses: [
-      {
-        id: 'addr-home',
-        label: 'Home',
-        line1: '32, Blue Lagoon Residences',
-        line2: 'Neelankarai',
-        city: 'Chennai',
-        state: 'Tamil Nadu',
-        postalCode: '600115',
-        isDefault: true,
-      },
-      {
-        id: 'addr-office',
-        label: 'Office',
-        line1: 'AquaKart Towers, 4th Floor',
-        line2: 'OMR, Thoraipakkam',
-        city: 'Chennai',
-        state: 'Tamil Nadu',
-        postalCode: '600096',
-        isDefault: false,
-      },
-    ],
-  },
 };
 
 function profileReducer(state: ProfileState, action: ProfileAction): ProfileState {
   switch (action.type) {
     case 'SET_TAB':
       return { ...state, activeTab: action.payload };
-    case 'UPDATE_USER':
-      return { ...state, user: action.payload };
     default:
       return state;
   }
@@ -183,11 +94,19 @@ function profileReducer(state: ProfileState, action: ProfileAction): ProfileStat
 
 const TABS: { key: TabKey; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
   { key: 'orders', label: 'Orders', icon: 'bag-handle-outline' },
+  { key: 'subscriptions', label: 'Subscriptions', icon: 'calendar-outline' },
   { key: 'favorites', label: 'Favourites', icon: 'heart-outline' },
   { key: 'cart', label: 'Cart', icon: 'cart-outline' },
   { key: 'about', label: 'About', icon: 'person-circle-outline' },
 ];
 
+const SUBSCRIPTION_STATUS_ORDER: Record<Subscription['status'], number> = {
+  active: 0,
+  paused: 1,
+  cancelled: 2,
+  unknown: 3,
+};
+
 const DRAWER_BOTTOM_PADDING =
   Platform.select<number>({ ios: 64, android: 48, default: 48 }) ?? 48;
 
@@ -196,37 +115,73 @@ type ListConfig = {
   keyExtractor: (item: any, index: number) => string;
   renderItem: ListRenderItem<any>;
   ItemSeparatorComponent?: ComponentType<any> | null;
-  ListEmptyComponent?: ComponentType<any> | null;
+  ListEmptyComponent?: ComponentType<any> | ReactElement | null;
+  ListFooterComponent?: ReactElement | null;
+  onEndReached?: () => void;
+};
+
+type ProfilePageProps = {
+  onOpenOrder?: (orderId: string) => void;
+  onViewCart?: () => void;
 };
 
-export default function ProfilePage() {
+export default function ProfilePage({ onOpenOrder, onViewCart }: ProfilePageProps) {
   const [state, dispatch] = useReducer(profileReducer, initialState);
+  const user = useProfileStore((state) => state.user);
+  const updateUser = useProfileStore((state) => state.updateUser);
   const [isDrawerVisible, setDrawerVisible] = useState(false);
 
-  const cartItemsMap = useCartStore((state) => state.items);
+  const addressesQuery = useAddressesQuery();
+  const { mutate: saveAddresses } = useSaveAddressesMutation();
+  const profile = useMemo<UserDetails>(
+    () => ({ ...user, addresses: addressesQuery.data ?? [] }),
+    [addressesQuery.data, user],
+  );
+
   const incrementCartItem = useCartStore((state) => state.incrementItem);
   const decrementCartItem = useCartStore((state) => state.decrementItem);
   const removeCartItem = useCartStore((state) => state.removeItem);
 
-  const cartEntries = useMemo(() => {
-    return Object.entries(cartItemsMap).map(([key, entry]) => ({
-      key,
-      product: entry.product,
-      quantity: entry.quantity,
-    }));
-  }, [cartItemsMap]);
+  const { breakdown: cartBreakdown } = useCartPricing();
+
+  const ordersQuery = useInfiniteOrdersQuery();
+  const favoriteItems = useFavoritesStore((state) => state.items);
 
+  // Pages can overlap when a new order shifts everything down by one.
+  const orders = useMemo(() => {
+    const seen = new Set<string>();
+    return (ordersQuery.data?.pages ?? [])
+      .flatMap((page) => page.orders)
+      .filter((order) => {
+        if (seen.has(order.id)) return false;
+        seen.add(order.id);
+        return true;
+      });
+  }, [ordersQuery.data]);
+
+  // Orders arrive newest first, so the first sighting is the latest order.
   const favouriteHistory = useMemo(() => {
     const map = new Map<string, FavouriteEntry>();
-    state.orders.forEach((order) => {
+    orders.forEach((order) => {
       order.items.forEach((item) => {
-        if (item.favorite && !map.has(item.sku)) {
-          map.set(item.sku, { item, orderId: order.id, placedOn: order.placedOn });
+        if (favoriteItems[item.productKey] && !map.has(item.productKey)) {
+          map.set(item.productKey, {
+            item,
+            orderId: order.id,
+            placedOn: formatOrderDate(order.placedAt),
+          });
         }
       });
     });
     return Array.from(map.values());
-  }, [state.orders]);
+  }, [favoriteItems, orders]);
+
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = ordersQuery;
+  const handleOrdersEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
 
   const notifyUpdate = useCallback((message: string) => {
     if (Platform.OS === 'android') {
@@ -249,22 +204,191 @@ export default function ProfilePage() {
   }, []);
 
   const handleSaveProfile = useCallback(
-    (updatedUser: UserDetails) => {
-      dispatch({ type: 'UPDATE_USER', payload: updatedUser });
+    ({ addresses, ...details }: UserDetails) => {
+      updateUser(details);
       setDrawerVisible(false);
-      notifyUpdate('Profile updated');
+      // Saving over addresses that never loaded would replace the account's with the edited copy.
+      if (!addressesQuery.isSuccess) {
+        Alert.alert(
+          'Addresses not saved',
+          "Your saved addresses haven't loaded yet, so address changes were not saved. Try again once they appear.",
+        );
+        return;
+      }
+      saveAddresses(addresses, {
+        onSuccess: () => notifyUpdate('Profile updated'),
+        onError: (error) => {
+          triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+          Alert.alert('Addresses not saved', getAddressesErrorMessage(error));
+        },
+      });
     },
-    [notifyUpdate],
+    [addressesQuery.isSuccess, notifyUpdate, saveAddresses, updateUser],
+  );
+
+  const { mutate: reorderLines, isPending: isReorderPending } = useReorderMutation();
+  // Which card's Reorder button shows the spinner.
+  const [reorderingKey, setReorderingKey] = useState<string | null>(null);
+
+  const handleReorder = useCallback(
+    (key: string, lines: ReorderLine[]) => {
+      if (isReorderPending) return;
+      triggerHaptic();
+      setReorderingKey(key);
+      reorderLines(lines, {
+        onSuccess: (summary) => {
+          triggerNotificationHaptic(
+            summary.details.length === 0
+              ? Haptics.NotificationFeedbackType.Success
+              : Haptics.NotificationFeedbackType.Warning,
+          );
+          Alert.alert(
+            summary.title,
+            summary.details.length > 0 ? summary.details.join('\n') : undefined,
+            summary.addedCount > 0 && onViewCart
+              ? [{ text: 'OK', style: 'cancel' }, { text: 'View cart', onPress: onViewCart }]
+              : undefined,
+          );
+        },
+        onError: () => {
+          triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+          Alert.alert('Reorder failed', 'Check your connection and try again.');
+        },
+        onSettled: () => setReorderingKey(null),
+      });
+    },
+    [isReorderPending, onViewCart, reorderLines],
+  );
+
+  const subscriptionsQuery = useSubscriptionsQuery({
+    enabled: state.activeTab === 'subscriptions',
+  });
+  const [isSubscriptionSheetVisible, setSubscriptionSheetVisible] = useState(false);
+
+  // Live subscriptions first; cancelled ones stay listed for reference.
+  const subscriptions = useMemo(
+    () =>
+      [...(subscriptionsQuery.data ?? [])].sort(
+        (a, b) => SUBSCRIPTION_STATUS_ORDER[a.status] - SUBSCRIPTION_STATUS_ORDER[b.status],
+      ),
+    [subscriptionsQuery.data],
+  );
+
+  const handleOpenSubscriptionSheet = useCallback(() => {
+    triggerHaptic();
+    setSubscriptionSheetVisible(true);
+  }, []);
+
+  const handleCloseSubscriptionSheet = useCallback(() => {
+    setSubscriptionSheetVisible(false);
+  }, []);
+
+  const handleSubscriptionCreated = useCallback(() => {
+    setSubscriptionSheetVisible(false);
+    notifyUpdate('Subscription started');
+  }, [notifyUpdate]);
+
+  const { mutate: updateSubscription, isPending: isSubscriptionUpdating } =
+    useUpdateSubscriptionMutation();
+  // Which card's actions show the spinner.
+  const [updatingSubscriptionId, setUpdatingSubscriptionId] = useState<string | null>(null);
+
+  const runSubscriptionAction = useCallback(
+    (subscription: Subscription, action: SubscriptionAction) => {
+      if (isSubscriptionUpdating) return;
+      triggerHaptic();
+      setUpdatingSubscriptionId(subscription.id);
+      updateSubscription(
+        { subscriptionId: subscription.id, action },
+        {
+          onSuccess: () => {
+            triggerNotificationHaptic(Haptics.NotificationFeedbackType.Success);
+          },
+          onError: (error) => {
+            triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+            Alert.alert('Subscription not updated', getSubscriptionErrorMessage(error));
+          },
+          onSettled: () => setUpdatingSubscriptionId(null),
+        },
+      );
+    },
+    [isSubscriptionUpdating, updateSubscription],
+  );
+
+  const handleSubscriptionAction = useCallback(
+    (subscription: Subscription, action: SubscriptionAction) => {
+      if (action === 'cancel') {
+        triggerNotificationHaptic(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+          'Cancel subscription?',
+          `No more deliveries of ${subscription.productName} will be scheduled.`,
+          [
+            { text: 'Keep it', style: 'cancel' },
+            {
+              text: 'Cancel subscription',
+              style: 'destructive',
+              onPress: () => runSubscriptionAction(subscription, 'cancel'),
+            },
+          ],
+        );
+        return;
+      }
+      if (action === 'skip' && subscription.nextDeliveryDate) {
+        Alert.alert(
+          'Skip next delivery?',
+          `We won't deliver on ${formatDateKey(subscription.nextDeliveryDate)}.`,
+          [
+            { text: 'Keep it', style: 'cancel' },
+            { text: 'Skip', onPress: () => runSubscriptionAction(subscription, 'skip') },
+          ],
+        );
+        return;
+      }
+      runSubscriptionAction(subscription, action);
+    },
+    [runSubscriptionAction],
+  );
+
+  const renderSubscriptionItem = useCallback<ListRenderItem<Subscription>>(
+    ({ item }) => (
+      <SubscriptionCard
+        subscription={item}
+        isUpdating={updatingSubscriptionId === item.id}
+        onAction={(action) => handleSubscriptionAction(item, action)}
+      />
+    ),
+    [handleSubscriptionAction, updatingSubscriptionId],
   );
 
   const renderOrderItem = useCallback<ListRenderItem<Order>>(
-    ({ item }) => <OrderCard order={item} />,
-    [],
+    ({ item }) => (
+      <OrderCard
+        order={item}
+        favoriteKeys={favoriteItems}
+        isReordering={reorderingKey === item.id}
+        onReorder={() => handleReorder(item.id, item.items)}
+        onPress={
+          onOpenOrder
+            ? () => {
+                triggerHaptic();
+                onOpenOrder(item.id);
+              }
+            : undefined
+        }
+      />
+    ),
+    [favoriteItems, handleReorder, onOpenOrder, reorderingKey],
   );
 
   const renderFavoriteItem = useCallback<ListRenderItem<FavouriteEntry>>(
-    ({ item }) => <FavoriteCard favourite={item} />,
-    [],
+    ({ item }) => (
+      <FavoriteCard
+        favourite={item}
+        isReordering={reorderingKey === item.item.productKey}
+        onReorder={() => handleReorder(item.item.productKey, [item.item])}
+      />
+    ),
+    [handleReorder, reorderingKey],
   );
 
   const renderAboutItem = useCallback<ListRenderItem<UserDetails>>(
@@ -272,14 +396,17 @@ export default function ProfilePage() {
     [handleEditPress],
   );
 
-  const renderProfileCartItem = useCallback<ListRenderItem<any>>(
+  const renderProfileCartItem = useCallback<ListRenderItem<PricedLine>>(
     ({ item, index }) => (
       <ProfileCartItem
         entry={item}
         index={index}
         onIncrement={(key, product) => {
-          triggerHaptic();
-          incrementCartItem(key, product);
+          if (incrementCartItem(key, product).ok) {
+            triggerHaptic();
+          } else {
+            triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+          }
         }}
         onDecrement={(key) => {
           triggerSelectionHaptic();
@@ -298,43 +425,101 @@ export default function ProfilePage() {
     switch (state.activeTab) {
       case 'orders':
         return {
-          data: state.orders,
+          data: orders,
           keyExtractor: (order: Order) => order.id,
           renderItem: renderOrderItem,
           ItemSeparatorComponent: OrdersSeparator,
+          ListEmptyComponent: ordersQuery.isPending ? (
+            <OrdersLoading />
+          ) : ordersQuery.isError ? (
+            <OrdersError onRetry={() => void ordersQuery.refetch()} />
+          ) : (
+            <EmptyOrders />
+          ),
+          ListFooterComponent: isFetchingNextPage ? (
+            <View style={styles.ordersFooter}>
+              <ActivityIndicator color='#ffffff' />
+            </View>
+          ) : null,
+          onEndReached: handleOrdersEndReached,
+        };
+      case 'subscriptions':
+        return {
+          data: subscriptions,
+          keyExtractor: (subscription: Subscription) => subscription.id,
+          renderItem: renderSubscriptionItem,
+          ItemSeparatorComponent: OrdersSeparator,
+          ListEmptyComponent: subscriptionsQuery.isPending ? (
+            <OrdersLoading />
+          ) : subscriptionsQuery.isError ? (
+            <OrdersError
+              title="Couldn't load your subscriptions"
+              onRetry={() => void subscriptionsQuery.refetch()}
+            />
+          ) : (
+            <EmptySubscriptions onStart={handleOpenSubscriptionSheet} />
+          ),
+          ListFooterComponent:
+            subscriptions.length > 0 ? (
+              <View style={styles.cartFooter}>
+                <TouchableOpacity
+                  style={styles.newSubscriptionButton}
+                  onPress={handleOpenSubscriptionSheet}
+                  accessibilityRole='button'
+                >
+                  <Ionicons name='add' size={18} color='#0C2B4E' />
+                  <Text style={styles.newSubscriptionButtonText}>New subscription</Text>
+                </TouchableOpacity>
+              </View>
+            ) : null,
         };
       case 'favorites':
         return {
           data: favouriteHistory,
-          keyExtractor: (entry: FavouriteEntry) => entry.item.sku,
+          keyExtractor: (entry: FavouriteEntry) => entry.item.productKey,
           renderItem: renderFavoriteItem,
           ItemSeparatorComponent: FavoritesSeparator,
           ListEmptyComponent: EmptyFavorites,
         };
       case 'cart':
         return {
-          data: cartEntries,
-          keyExtractor: (item) => item.key,
+          data: cartBreakdown.lines,
+          keyExtractor: (item: PricedLine) => item.key,
           renderItem: renderProfileCartItem,
           ItemSeparatorComponent: FavoritesSeparator, // Reuse separator
           ListEmptyComponent: EmptyCartProfile,
+          ListFooterComponent:
+            cartBreakdown.lines.length > 0 ? (
+              <View style={styles.cartFooter}>
+                <PriceBreakdownCard breakdown={cartBreakdown} />
+              </View>
+            ) : null,
         };
       case 'about':
       default:
         return {
-          data: [state.user],
+          data: [profile],
           keyExtractor: () => 'profile-about',
           renderItem: renderAboutItem,
         };
     }
   }, [
+    cartBreakdown,
     favouriteHistory,
+    handleOpenSubscriptionSheet,
+    handleOrdersEndReached,
+    isFetchingNextPage,
+    orders,
+    ordersQuery,
+    profile,
     renderAboutItem,
     renderFavoriteItem,
     renderOrderItem,
+    renderProfileCartItem,
+    renderSubscriptionItem,
     state.activeTab,
-    state.orders,
-    state.user,
+    subscriptions,
+    subscriptionsQuery,
   ]);
 
   return (
@@ -348,11 +533,14 @@ export default function ProfilePage() {
         renderItem={listConfig.renderItem}
         ItemSeparatorComponent={listConfig.ItemSeparatorComponent}
         ListEmptyComponent={listConfig.ListEmptyComponent}
+        ListFooterComponent={listConfig.ListFooterComponent}
+        onEndReached={listConfig.onEndReached}
+        onEndReachedThreshold={0.5}
         ListHeaderComponent={
           <ProfileHeader
             activeTab={state.activeTab}
             onTabPress={handleTabPress}
-            user={state.user}
+            user={user}
           />
         }
         showsVerticalScrollIndicator={false}
@@ -360,10 +548,16 @@ export default function ProfilePage() {
 
       <EditProfileDrawer
         visible={isDrawerVisible}
-        user={state.user}
+        user={profile}
         onClose={handleCloseDrawer}
         onSave={handleSaveProfile}
       />
+
+      <SubscriptionSheet
+        visible={isSubscriptionSheetVisible}
+        onClose={handleCloseSubscriptionSheet}
+        onCreated={handleSubscriptionCreated}
+      />
     </View>
   );
 }
@@ -371,7 +565,7 @@ export default function ProfilePage() {
 type ProfileHeaderProps = {
   activeTab: TabKey;
   onTabPress: (tab: TabKey) => void;
-  user: UserDetails;
+  user: ContactDetails;
 };
 
 function ProfileHeader({ activeTab, onTabPress, user }: ProfileHeaderProps) {
@@ -390,7 +584,8 @@ function ProfileHeader({ activeTab, onTabPress, user }: ProfileHeaderProps) {
           </Text>
         </View>
         <Text style={styles.heroSubtitle}>
-          Review recent orders, revisit favourites, and keep your delivery information up to date.
+          Review recent orders, manage subscriptions, revisit favourites, and keep your delivery
+          information up to date.
         </Text>
       </LinearGradient>
 
@@ -424,57 +619,125 @@ function ProfileHeader({ activeTab, onTabPress, user }: ProfileHeaderProps) {
 
 type OrderCardProps = {
   order: Order;
+  favoriteKeys: Record<string, unknown>;
+  onPress?: () => void;
+  onReorder: () => void;
+  isReordering: boolean;
+};
+
+const STATUS_TONE_STYLES: Record<
+  OrderStatusTone,
+  'statusProcessing' | 'statusActive' | 'statusDelivered' | 'statusCancelled' | 'statusNeutral'
+> = {
+  pending: 'statusProcessing',
+  active: 'statusActive',
+  success: 'statusDelivered',
+  danger: 'statusCancelled',
+  neutral: 'statusNeutral',
 };
 
-function OrderCard({ order }: OrderCardProps) {
+function ReorderButton({ onPress, isReordering }: { onPress: () => void; isReordering: boolean }) {
   return (
-    <BlurView intensity={20} tint="dark" style={styles.orderCard}>
-      <View style={styles.orderHeader}>
-        <View>
-          <Text style={styles.orderId}>Order {order.id}</Text>
-          <Text style={styles.orderMeta}>Placed on {order.placedOn}</Text>
+    <TouchableOpacity
+      style={styles.reorderButton}
+      onPress={onPress}
+      disabled={isReordering}
+      accessibilityRole="button"
+      accessibilityLabel="Reorder"
+    >
+      {isReordering ? (
+        <ActivityIndicator size="small" color="#0C2B4E" />
+      ) : (
+        <>
+          <Ionicons name="repeat" size={16} color="#0C2B4E" />
+          <Text style={styles.reorderButtonText}>Reorder</Text>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+function OrderCard({ order, favoriteKeys, onPress, onReorder, isReordering }: OrderCardProps) {
+  return (
+    <TouchableOpacity
+      activeOpacity={0.8}
+      onPress={onPress}
+      disabled={!onPress}
+      accessibilityRole="button"
+      accessibilityLabel={`Order ${order.id}, ${ORDER_STATUS_LABELS[order.status]}`}
+    >
+      <BlurView intensity={20} tint="dark" style={styles.orderCard}>
+        <View style={styles.orderHeader}>
+          <View>
+            <Text style={styles.orderId}>Order {order.id}</Text>
+            <Text style={styles.orderMeta}>Placed on {formatOrderDate(order.placedAt)}</Text>
+          </View>
+          <View style={[styles.statusBadge, styles[STATUS_TONE_STYLES[ORDER_STATUS_TONES[order.status]]]]}>
+            <Text style={styles.statusText}>{ORDER_STATUS_LABELS[order.status]}</Text>
+          </View>
         </View>
-        <View
-          style={[
-            styles.statusBadge,
-            order.status === 'Delivered' && styles.statusDelivered,
-            order.status === 'Processing' && styles.statusProcessing,
-            order.status === 'Cancelled' && styles.statusCancelled,
-          ]}
-        >
-          <Text style={styles.statusText}>{order.status}</Text>
+        <View style={styles.orderItems}>
+          {order.items.map((item) => {
+            const isFavorite = Boolean(favoriteKeys[item.productKey]);
+            return (
+              <View key={item.productKey} style={styles.orderItemRow}>
+                <Ionicons
+                  name={isFavorite ? 'heart' : 'water-outline'}
+                  size={16}
+                  color={isFavorite ? '#f472b6' : '#ffffff'}
+                />
+                <View style={styles.orderItemContent}>
+                  <Text style={styles.orderItemTitle}>{item.name}</Text>
+                  <Text style={styles.orderItemMeta}>
+                    Qty {item.quantity}
+                    {item.unitPrice !== null && ` · ₹${item.unitPrice.toFixed(2)} each`}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
         </View>
-      </View>
-      <View style={styles.orderItems}>
-        {order.items.map((item) => (
-          <View key={item.sku} style={styles.orderItemRow}>
-            <Ionicons
-              name={item.favorite ? 'heart' : 'water-outline'}
-              size={16}
-              color={item.favorite ? '#f472b6' : '#ffffff'}
-            />
-            <View style={styles.orderItemContent}>
-              <Text style={styles.orderItemTitle}>{item.name}</Text>
-              <Text style={styles.orderItemMeta}>
-                Qty {item.quantity} · ₹{item.price.toFixed(2)} each
-              </Text>
-            </View>
+        <View style={styles.orderFooter}>
+          <Text style={styles.orderTotalLabel}>Total</Text>
+          <Text style={styles.orderTotalValue}>₹{order.total.toFixed(2)}</Text>
+        </View>
+        {(order.refund || order.returnRequest) && (
+          <View style={styles.orderRefundRow}>
+            <Ionicons name="return-down-back-outline" size={14} color="rgba(255,255,255,0.7)" />
+            <Text style={styles.orderRefundText}>
+              {order.refund
+                ? `${REFUND_STATUS_LABELS[order.refund.status]}${
+                    order.refund.amount !== null ? ` · ₹${order.refund.amount.toFixed(2)}` : ''
+                  }`
+                : order.returnRequest && RETURN_STATUS_LABELS[order.returnRequest.status]}
+            </Text>
           </View>
-        ))}
-      </View>
-      <View style={styles.orderFooter}>
-        <Text style={styles.orderTotalLabel}>Total</Text>
-        <Text style={styles.orderTotalValue}>₹{order.total.toFixed(2)}</Text>
-      </View>
-    </BlurView>
+        )}
+        <View style={styles.orderActions}>
+          {order.items.length > 0 ? (
+            <ReorderButton onPress={onReorder} isReordering={isReordering} />
+          ) : (
+            <View />
+          )}
+          {onPress && (
+            <View style={styles.orderDetailsLink}>
+              <Text style={styles.orderDetailsText}>Track order</Text>
+              <Ionicons name="chevron-forward" size={16} color="rgba(255,255,255,0.7)" />
+            </View>
+          )}
+        </View>
+      </BlurView>
+    </TouchableOpacity>
   );
 }
 
 type FavoriteCardProps = {
   favourite: FavouriteEntry;
+  onReorder: () => void;
+  isReordering: boolean;
 };
 
-function FavoriteCard({ favourite }: FavoriteCardProps) {
+function FavoriteCard({ favourite, onReorder, isReordering }: FavoriteCardProps) {
   return (
     <BlurView intensity={20} tint="dark" style={styles.favoriteCard}>
       <View style={styles.favoriteIconWrap}>
@@ -486,10 +749,114 @@ function FavoriteCard({ favourite }: FavoriteCardProps) {
           Last ordered in {favourite.orderId} · {favourite.placedOn}
         </Text>
       </View>
+      <ReorderButton onPress={onReorder} isReordering={isReordering} />
+    </BlurView>
+  );
+}
+
+type SubscriptionCardProps = {
+  subscription: Subscription;
+  onAction: (action: SubscriptionAction) => void;
+  isUpdating: boolean;
+};
+
+function SubscriptionCard({ subscription, onAction, isUpdating }: SubscriptionCardProps) {
+  const { status, nextDeliveryDate, deliveryAddress } = subscription;
+  return (
+    <BlurView intensity={20} tint="dark" style={styles.orderCard}>
+      <View style={styles.orderHeader}>
+        <View style={styles.orderItemContent}>
+          <Text style={styles.orderId}>{subscription.productName}</Text>
+          <Text style={styles.orderMeta}>
+            {subscription.quantity} per delivery ·{' '}
+            {describeFrequency(subscription.frequency, subscription.startDate)}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, styles[STATUS_TONE_STYLES[SUBSCRIPTION_STATUS_TONES[status]]]]}>
+          <Text style={styles.statusText}>{SUBSCRIPTION_STATUS_LABELS[status]}</Text>
+        </View>
+      </View>
+      <View style={styles.orderItems}>
+        {isManageableSubscriptionStatus(status) && (
+          <View style={styles.orderItemRow}>
+            <Ionicons name='calendar-outline' size={16} color='#ffffff' />
+            <Text style={styles.orderItemMeta}>
+              {status === 'paused'
+                ? 'Deliveries paused until you resume'
+                : nextDeliveryDate
+                  ? `Next delivery ${formatDateKey(nextDeliveryDate)}`
+                  : `Starts ${formatDateKey(subscription.startDate)}`}
+            </Text>
+          </View>
+        )}
+        {status === 'unknown' && (
+          <View style={styles.orderItemRow}>
+            <Ionicons name='help-circle-outline' size={16} color='#ffffff' />
+            <Text style={styles.orderItemMeta}>
+              Update the app or contact support to manage this subscription.
+            </Text>
+          </View>
+        )}
+        {deliveryAddress && (
+          <View style={styles.orderItemRow}>
+            <Ionicons name='location-outline' size={16} color='#ffffff' />
+            <Text style={styles.orderItemMeta}>
+              {[deliveryAddress.label, deliveryAddress.lines[0]].filter(Boolean).join(' · ')}
+            </Text>
+          </View>
+        )}
+      </View>
+      {isManageableSubscriptionStatus(status) && (
+        <View style={styles.subscriptionActions}>
+          {isUpdating ? (
+            <ActivityIndicator size='small' color='#ffffff' />
+          ) : (
+            <>
+              <SubscriptionActionButton
+                icon={status === 'paused' ? 'play-outline' : 'pause-outline'}
+                label={status === 'paused' ? 'Resume' : 'Pause'}
+                onPress={() => onAction(status === 'paused' ? 'resume' : 'pause')}
+              />
+              {status === 'active' && nextDeliveryDate && (
+                <SubscriptionActionButton
+                  icon='play-skip-forward-outline'
+                  label='Skip next'
+                  onPress={() => onAction('skip')}
+                />
+              )}
+              <SubscriptionActionButton
+                icon='close-circle-outline'
+                label='Cancel'
+                onPress={() => onAction('cancel')}
+              />
+            </>
+          )}
+        </View>
+      )}
     </BlurView>
   );
 }
 
+type SubscriptionActionButtonProps = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+};
+
+function SubscriptionActionButton({ icon, label, onPress }: SubscriptionActionButtonProps) {
+  return (
+    <TouchableOpacity
+      style={styles.editButton}
+      onPress={onPress}
+      accessibilityRole='button'
+      accessibilityLabel={label}
+    >
+      <Ionicons name={icon} size={16} color='#ffffff' />
+      <Text style={styles.editButtonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
 type AboutCardProps = {
   user: UserDetails;
   onEditPress: () => void;
@@ -523,6 +890,9 @@ function AboutCard({ user, onEditPress }: AboutCardProps) {
         <View style={styles.addressBlock}>
           <Text style={styles.aboutValue}>Saved Addresses</Text>
           <View style={styles.aboutAddressList}>
+            {user.addresses.length === 0 ? (
+              <Text style={styles.favoriteMeta}>Add an address to check out and subscribe.</Text>
+            ) : null}
             {[...user.addresses]
               .sort((a, b) => (a.isDefault === b.isDefault ? 0 : a.isDefault ? -1 : 1))
               .map((address) => (
@@ -571,13 +941,85 @@ function EmptyFavorites() {
         <Ionicons name='heart-outline' size={44} color='rgba(255,255,255,0.4)' />
         <Text style={styles.emptyTitle}>No favourites yet</Text>
         <Text style={styles.emptySubtitle}>
-          Mark items as favourite in your orders to see them here.
+          Favourite products you've ordered before to see them here.
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+function OrdersLoading() {
+  return (
+    <View style={styles.emptyWrapper}>
+      <ActivityIndicator size='large' color='#ffffff' />
+    </View>
+  );
+}
+
+function OrdersError({
+  title = "Couldn't load your orders",
+  onRetry,
+}: {
+  title?: string;
+  onRetry: () => void;
+}) {
+  return (
+    <View style={styles.emptyWrapper}>
+      <View style={styles.emptyState}>
+        <Ionicons name='cloud-offline-outline' size={44} color='rgba(255,255,255,0.4)' />
+        <Text style={styles.emptyTitle}>{title}</Text>
+        <Text style={styles.emptySubtitle}>Check your connection and try again.</Text>
+        <TouchableOpacity
+          style={styles.retryButton}
+          onPress={() => {
+            triggerHaptic();
+            onRetry();
+          }}
+          accessibilityRole='button'
+        >
+          <Text style={styles.retryButtonText}>Try again</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function EmptyOrders() {
+  return (
+    <View style={styles.emptyWrapper}>
+      <View style={styles.emptyState}>
+        <Ionicons name='bag-handle-outline' size={44} color='rgba(255,255,255,0.4)' />
+        <Text style={styles.emptyTitle}>No orders yet</Text>
+        <Text style={styles.emptySubtitle}>
+          Orders you place will show up here with their delivery status.
         </Text>
       </View>
     </View>
   );
 }
 
+function EmptySubscriptions({ onStart }: { onStart: () => void }) {
+  return (
+    <View style={styles.emptyWrapper}>
+      <View style={styles.emptyState}>
+        <Ionicons name='calendar-outline' size={44} color='rgba(255,255,255,0.4)' />
+        <Text style={styles.emptyTitle}>No subscriptions yet</Text>
+        <Text style={styles.emptySubtitle}>
+          Get water cans delivered daily, on alternate days or on the days you pick.
+        </Text>
+        <TouchableOpacity
+          style={styles.newSubscriptionButton}
+          onPress={onStart}
+          accessibilityRole='button'
+        >
+          <Ionicons name='add' size={18} color='#0C2B4E' />
+          <Text style={styles.newSubscriptionButtonText}>Start a subscription</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 function OrdersSeparator() {
   return <View style={styles.ordersSeparator} />;
 }
@@ -954,9 +1396,9 @@ function EmptyCartProfile() {
 }
 
 type ProfileCartItemProps = {
-  entry: { key: string; product: Product; quantity: number };
+  entry: PricedLine;
   index: number;
-  onIncrement: (key: string, product: Product) => void;
+  onIncrement: (key: string, product: CatalogProduct) => void;
   onDecrement: (key: string) => void;
   onRemove: (key: string) => void;
 };
@@ -966,8 +1408,7 @@ function ProfileCartItem({ entry, index, onIncrement, onDecrement, onRemove }: P
   const images = getProductImages(product);
   const imageUri = images[0] ?? null;
   const title = getProductTitle(product, index);
-  const price = getProductPrice(product);
-  const lineTotal = typeof price === 'number' ? (price * quantity).toFixed(2) : null;
+  const lineTotal = entry.unitPricePaise !== null ? formatPaise(entry.subtotalPaise) : null;
 
   return (
     <BlurView intensity={20} tint="dark" style={styles.favoriteCard}>
@@ -986,7 +1427,7 @@ function ProfileCartItem({ entry, index, onIncrement, onDecrement, onRemove }: P
           </Text>
           {lineTotal && (
             <Text style={{ fontSize: 13, fontWeight: '700', color: '#ffffff' }}>
-              ₹{lineTotal}
+              {lineTotal}
             </Text>
           )}
         </View>
@@ -1024,6 +1465,9 @@ const styles = StyleSheet.create({
   list: {
     flex: 1,
   },
+  cartFooter: {
+    marginTop: 16,
+  },
   listContent: {
     paddingTop: 140, // Header space
     paddingHorizontal: 20, // Standardized
@@ -1118,6 +1562,12 @@ const styles = StyleSheet.create({
   statusCancelled: {
     backgroundColor: 'rgba(254, 226, 226, 0.2)', // Light red glass
   },
+  statusActive: {
+    backgroundColor: 'rgba(186, 230, 253, 0.25)', // Light blue glass
+  },
+  statusNeutral: {
+    backgroundColor: 'rgba(226, 232, 240, 0.2)', // Light slate glass
+  },
   statusText: {
     fontSize: 12,
     fontWeight: '700',
@@ -1303,6 +1753,83 @@ const styles = StyleSheet.create({
   ordersSeparator: {
     height: 16,
   },
+  orderRefundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  orderRefundText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.8)',
+  },
+  orderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  reorderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    minWidth: 96,
+    minHeight: 34,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    backgroundColor: '#e0f2fe',
+  },
+  reorderButtonText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+  orderDetailsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+  },
+  orderDetailsText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.7)',
+  },
+  ordersFooter: {
+    paddingVertical: 20,
+  },
+  subscriptionActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  newSubscriptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    minHeight: 44,
+    paddingHorizontal: 18,
+    borderRadius: 999,
+    backgroundColor: '#e0f2fe',
+  },
+  newSubscriptionButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0C2B4E',
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   favoritesSeparator: {
     height: 12,
   },
@@ -1,5 +1,5 @@
 // ... imports remain the same, ensuring Haptics and Icons are there
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   FlatList,
@@ -14,18 +14,43 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { triggerHaptic, triggerSelectionHaptic } from '../utils/haptics';
-import { fetchProducts } from '../services/products';
+import { triggerHaptic, triggerNotificationHaptic, triggerSelectionHaptic } from '../utils/haptics';
 import {
-  Product,
+  useInfiniteProductsQuery,
+  useProductSearchQuery,
+  useProductsQuery,
+} from '../hooks/useProducts';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import {
+  CatalogProduct,
   getProductImages,
   getProductKey,
   getProductPrice,
   getProductTitle,
   getProductDescription,
+  getLowStockHint,
+  getProductQuantityLimit,
 } from '../utils/products';
-import { useCartStore } from '../store/cartStore';
+import { getCartLimitMessage, useCartStore } from '../store/cartStore';
 import { useFavoritesStore } from '../store/favoritesStore';
+import { useSearchStore } from '../store/searchStore';
+import { useShopPreferencesStore } from '../store/shopPreferencesStore';
+import { ProductSearchResult } from '../utils/search';
+import { SortKey, getSortOption, sortBy, sortProducts } from '../utils/sort';
+import {
+  EMPTY_FILTERS,
+  ProductFilters,
+  getCategoryOptions,
+  getFilterPills,
+  getPriceBounds,
+  hasActiveFilters,
+  matchesFilters,
+} from '../utils/filters';
+import SearchBar from '../components/shop/SearchBar';
+import HighlightedText from '../components/shop/HighlightedText';
+import FilterBar from '../components/shop/FilterBar';
+import FilterSheet from '../components/shop/FilterSheet';
+import SortSheet from '../components/shop/SortSheet';
 
 const LIST_BOTTOM_GUTTER = 112;
 const SKELETON_PLACEHOLDERS = Array.from({ length: 6 }, (_, index) => index);
@@ -33,97 +58,148 @@ const { width } = Dimensions.get('window');
 const CONTENT_PADDING = 20; // Standardized to 20px
 const COLUMN_GAP = 12;
 const CARD_WIDTH = (width - (CONTENT_PADDING * 2) - COLUMN_GAP) / 2;
+const SEARCH_DEBOUNCE_MS = 300;
 
-function normalizeProducts(payload: unknown): Product[] {
-  if (!payload) {
-    return [];
-  }
-
-  if (Array.isArray(payload)) {
-    return payload as Product[];
-  }
-
-  if (
-    typeof payload === 'object' &&
-    payload !== null &&
-    'data' in payload &&
-    Array.isArray((payload as { data: unknown }).data)
-  ) {
-    return (payload as { data: Product[] }).data;
-  }
-
-  if (
-    typeof payload === 'object' &&
-    payload !== null &&
-    'items' in payload &&
-    Array.isArray((payload as { items: unknown }).items)
-  ) {
-    return (payload as { items: Product[] }).items;
-  }
-
-  return [];
-}
+type ShopPageProps = {
+  onOpenProduct?: (productKey: string) => void;
+};
 
-export default function ShopPage() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+export default function ShopPage({ onOpenProduct }: ShopPageProps) {
+  const sortKey = useShopPreferencesStore((state) => state.sortKey);
+  const setSortKey = useShopPreferencesStore((state) => state.setSortKey);
+  const [isSortSheetVisible, setSortSheetVisible] = useState(false);
+  const {
+    data,
+    isPending,
+    error: queryError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteProductsQuery(sortKey);
   const [refreshing, setRefreshing] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const debouncedSearch = useDebouncedValue(searchText, SEARCH_DEBOUNCE_MS);
+  const isSearchActive = debouncedSearch.trim().length > 0;
+  const search = useProductSearchQuery(debouncedSearch);
+  const [filters, setFilters] = useState<ProductFilters>(EMPTY_FILTERS);
+  const [isFilterSheetVisible, setFilterSheetVisible] = useState(false);
+  const filtersActive = hasActiveFilters(filters);
+  // Filters need the whole catalog, not just the pages scrolled so far.
+  const catalog = useProductsQuery({ enabled: filtersActive || isFilterSheetVisible });
+  const recentSearches = useSearchStore((state) => state.recentSearches);
+  const addRecentSearch = useSearchStore((state) => state.addRecentSearch);
+  const removeRecentSearch = useSearchStore((state) => state.removeRecentSearch);
+  const clearRecentSearches = useSearchStore((state) => state.clearRecentSearches);
   const cartItems = useCartStore((state) => state.items);
   const incrementItem = useCartStore((state) => state.incrementItem);
   const favoriteItems = useFavoritesStore((state) => state.items);
   const toggleFavorite = useFavoritesStore((state) => state.toggleItem);
 
-  const loadProducts = useCallback(
-    async (isRefresh = false) => {
-      if (!isRefresh) {
-        setLoading(true);
-      }
-      setError(null);
+  // Pages can overlap when the catalog shifts between requests.
+  const products = useMemo(() => {
+    const pages = data?.pages ?? [];
+    const seen = new Set<string>();
+    const loaded = pages
+      .flatMap((page) => page.products)
+      .filter((product) => {
+        const key = getProductKey(product);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    // Servers that ignore ?sort= still get a sorted grid, at least across loaded pages.
+    return pages.every((page) => page.serverSorted) ? loaded : sortProducts(loaded, sortKey);
+  }, [data, sortKey]);
 
-      try {
-        const response = await fetchProducts();
-        const nextProducts = normalizeProducts(response.data);
-        setProducts(nextProducts);
-      } catch (err) {
-        setError('Unable to load products right now. Please try again later.');
-      } finally {
-        if (isRefresh) {
-          setRefreshing(false);
-        } else {
-          setLoading(false);
-        }
-      }
-    },
-    []
-  );
+  const catalogProducts = catalog.data ?? products;
+  const categoryOptions = useMemo(() => getCategoryOptions(catalogProducts), [catalogProducts]);
+  const priceBounds = useMemo(() => getPriceBounds(catalogProducts), [catalogProducts]);
+  const filterPills = useMemo(() => getFilterPills(filters), [filters]);
+
+  const results = useMemo<ProductSearchResult[]>(() => {
+    const base = isSearchActive
+      ? search.data ?? []
+      : (filtersActive ? catalog.data ?? [] : products).map((product) => ({
+          product,
+          titleRanges: [],
+        }));
+    if (!isSearchActive && !filtersActive) {
+      return base;
+    }
+    const filtered = filtersActive
+      ? base.filter(({ product }) => matchesFilters(product, filters))
+      : base;
+    return sortBy(filtered, sortKey, (result) => result.product);
+  }, [catalog.data, filters, filtersActive, isSearchActive, products, search.data, sortKey]);
 
-  useEffect(() => {
-    loadProducts();
-  }, [loadProducts]);
+  const isPaging = !isSearchActive && !filtersActive;
+  const activeError = isSearchActive ? search.error : filtersActive ? catalog.error : queryError;
+  const error = activeError
+    ? 'Unable to load products right now. Please try again later.'
+    : null;
 
   const handleAddToCart = useCallback(
-    (productKey: string, product: Product) => {
-      triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
-      incrementItem(productKey, product);
+    (productKey: string, product: CatalogProduct) => {
+      const result = incrementItem(productKey, product);
+      if (result.ok) {
+        triggerHaptic(Haptics.ImpactFeedbackStyle.Medium);
+      } else {
+        triggerNotificationHaptic(Haptics.NotificationFeedbackType.Error);
+      }
     },
     [incrementItem]
   );
 
-  const handleRefresh = useCallback(() => {
+  // Only pull-to-refresh shows the spinner; background refetches stay silent.
+  const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    loadProducts(true);
-  }, [loadProducts]);
+    try {
+      await (isSearchActive ? search.refetch() : filtersActive ? catalog.refetch() : refetch());
+    } finally {
+      setRefreshing(false);
+    }
+  }, [catalog, filtersActive, isSearchActive, refetch, search]);
 
   const handleToggleFavorite = useCallback(
-    (productKey: string, product: Product) => {
+    (productKey: string, product: CatalogProduct) => {
       triggerSelectionHaptic();
       toggleFavorite(productKey, product);
     },
     [toggleFavorite]
   );
 
-  const isInitialLoading = loading && products.length === 0;
+  const handleEndReached = useCallback(() => {
+    if (isPaging && hasNextPage && !isFetchingNextPage && !queryError) {
+      fetchNextPage();
+    }
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage, isPaging, queryError]);
+
+  const handleApplyFilters = useCallback((next: ProductFilters) => {
+    setFilters(next);
+    setFilterSheetVisible(false);
+  }, []);
+
+  const handleSelectSort = useCallback(
+    (next: SortKey) => {
+      setSortKey(next);
+      setSortSheetVisible(false);
+    },
+    [setSortKey]
+  );
+
+  const handleSearchSubmit = useCallback(
+    (value: string) => {
+      addRecentSearch(value);
+    },
+    [addRecentSearch]
+  );
+
+  const isInitialLoading = isSearchActive
+    ? search.isPending
+    : filtersActive
+      ? catalog.isPending
+      : isPending && products.length === 0;
 
   const listEmptyComponent = useMemo(() => {
     if (isInitialLoading) {
@@ -140,125 +216,227 @@ export default function ShopPage() {
 
     return (
       <View style={styles.messageWrapper}>
-        <Text style={styles.emptyText}>No products found.</Text>
+        <Text style={styles.emptyText}>
+          {isSearchActive
+            ? `No products match “${debouncedSearch.trim()}”.`
+            : filtersActive
+            ? 'No products match these filters.'
+            : 'No products found.'}
+        </Text>
       </View>
     );
-  }, [isInitialLoading, error]);
+  }, [isInitialLoading, error, isSearchActive, filtersActive, debouncedSearch]);
 
-  const dataSource = isInitialLoading ? SKELETON_PLACEHOLDERS : products;
+  const dataSource = isInitialLoading ? SKELETON_PLACEHOLDERS : results;
 
   return (
-    <FlatList<Product | number>
-      data={dataSource}
-      style={styles.list}
-      numColumns={2}
-      columnWrapperStyle={styles.columnWrapper}
-      contentContainerStyle={
-        dataSource.length === 0
-          ? styles.emptyListContainer
-          : styles.listContent
-      }
-      scrollIndicatorInsets={{ bottom: LIST_BOTTOM_GUTTER }}
-      keyExtractor={(item, index) =>
-        isInitialLoading ? `skeleton-${index}` : getProductKey(item as Product, index)
-      }
-      renderItem={({ item, index }) => {
-        if (isInitialLoading) {
-          return <ProductLoadingCard />;
+    <>
+      <FlatList<ProductSearchResult | number>
+        data={dataSource}
+        style={styles.list}
+        numColumns={2}
+        columnWrapperStyle={styles.columnWrapper}
+        contentContainerStyle={
+          dataSource.length === 0
+            ? [styles.listContent, styles.emptyListContainer]
+            : styles.listContent
         }
+        scrollIndicatorInsets={{ bottom: LIST_BOTTOM_GUTTER }}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        ListHeaderComponent={
+          <>
+            <SearchBar
+              value={searchText}
+              onChangeText={setSearchText}
+              onSubmit={handleSearchSubmit}
+              isSearching={isSearchActive && search.isFetching}
+              recentSearches={recentSearches}
+              onRemoveRecent={removeRecentSearch}
+              onClearRecent={clearRecentSearches}
+            />
+            <FilterBar
+              pills={filterPills}
+              resultCount={
+                !isInitialLoading && (filtersActive || isSearchActive) ? results.length : null
+              }
+              sortLabel={getSortOption(sortKey).label}
+              onOpenFilters={() => setFilterSheetVisible(true)}
+              onOpenSort={() => setSortSheetVisible(true)}
+              onRemovePill={(pill) => setFilters((current) => pill.remove(current))}
+            />
+          </>
+        }
+        keyExtractor={(item, index) =>
+          isInitialLoading
+            ? `skeleton-${index}`
+            : getProductKey((item as ProductSearchResult).product)
+        }
+        renderItem={({ item, index }) => {
+          if (isInitialLoading) {
+            return <ProductLoadingCard />;
+          }
 
-        const product = item as Product;
-        const title = getProductTitle(product, index);
-        const price = getProductPrice(product);
-        const imageUrls = getProductImages(product);
-        const hasImages = imageUrls.length > 0;
-        const productKey = getProductKey(product, index);
-        const isFavorite = Boolean(favoriteItems[productKey]);
-        const quantity = cartItems[productKey]?.quantity ?? 0;
-        const inCart = quantity > 0;
-
-        return (
-          <View style={styles.card}>
-            <View style={styles.imageContainer}>
-              {hasImages ? (
-                <Image
-                  source={{ uri: imageUrls[0] }}
-                  style={styles.image}
-                  resizeMode="cover"
-                />
-              ) : (
-                <View style={[styles.image, styles.imagePlaceholder]}>
-                  <Text style={styles.imagePlaceholderText}>No Image</Text>
-                </View>
-              )}
-              <TouchableOpacity
-                onPress={() => handleToggleFavorite(productKey, product)}
-                style={styles.favoriteButton}
-                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-              >
-                <Ionicons
-                  name={isFavorite ? 'heart' : 'heart-outline'}
-                  size={20}
-                  color={isFavorite ? '#dc2626' : '#0f172a'}
-                />
-              </TouchableOpacity>
-            </View>
-
-            <View style={styles.cardContent}>
-              <Text style={styles.productTitle} numberOfLines={2}>
-                {title}
-              </Text>
+          const { product, titleRanges } = item as ProductSearchResult;
+          const title = getProductTitle(product, index);
+          const price = getProductPrice(product);
+          const imageUrls = getProductImages(product);
+          const hasImages = imageUrls.length > 0;
+          const productKey = getProductKey(product);
+          const isFavorite = Boolean(favoriteItems[productKey]);
+          const quantity = cartItems[productKey]?.quantity ?? 0;
+          const inCart = quantity > 0;
+          const limit = getProductQuantityLimit(product);
+          const atLimit = quantity >= limit.max;
+          const stockHint = atLimit
+            ? getCartLimitMessage(limit.reason, limit.max)
+            : getLowStockHint(product);
 
-              <View style={styles.priceRow}>
-                {price !== null && (
-                  <Text style={styles.price}>₹{price.toFixed(0)}</Text>
-                )}
-                {inCart && (
-                  <View style={styles.badge}>
-                    <Text style={styles.badgeText}>{quantity}</Text>
+          return (
+            <TouchableOpacity
+              style={styles.card}
+              onPress={() => onOpenProduct?.(productKey)}
+              activeOpacity={0.9}
+              accessibilityRole="button"
+              accessibilityLabel={`View ${title}`}
+            >
+              <View style={styles.imageContainer}>
+                {hasImages ? (
+                  <Image
+                    source={{ uri: imageUrls[0] }}
+                    style={styles.image}
+                    resizeMode="cover"
+                  />
+                ) : (
+                  <View style={[styles.image, styles.imagePlaceholder]}>
+                    <Text style={styles.imagePlaceholderText}>No Image</Text>
                   </View>
                 )}
+                <TouchableOpacity
+                  onPress={() => handleToggleFavorite(productKey, product)}
+                  style={styles.favoriteButton}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons
+                    name={isFavorite ? 'heart' : 'heart-outline'}
+                    size={20}
+                    color={isFavorite ? '#dc2626' : '#0f172a'}
+                  />
+                </TouchableOpacity>
               </View>
 
-              <TouchableOpacity
-                onPress={() => handleAddToCart(productKey, product)}
-                style={[
-                  styles.cartButton,
-                  inCart && styles.cartButtonAdded,
-                ]}
-                activeOpacity={0.85}
-              >
-                <Ionicons
-                  name={inCart ? "add" : "cart-outline"}
-                  size={16}
-                  color={inCart ? '#0C2B4E' : '#ffffff'}
+              <View style={styles.cardContent}>
+                <HighlightedText
+                  style={styles.productTitle}
+                  numberOfLines={2}
+                  text={title}
+                  ranges={titleRanges}
+                  highlightStyle={styles.titleHighlight}
                 />
-                <Text
+
+                <View style={styles.priceRow}>
+                  {price !== null && (
+                    <Text style={styles.price}>₹{price.toFixed(0)}</Text>
+                  )}
+                  {inCart && (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>{quantity}</Text>
+                    </View>
+                  )}
+                </View>
+                {stockHint && (
+                  <Text style={styles.stockHint} numberOfLines={1}>
+                    {stockHint}
+                  </Text>
+                )}
+
+                {/* Still pressable at the limit, so the tap gets error feedback. */}
+                <TouchableOpacity
+                  onPress={() => handleAddToCart(productKey, product)}
                   style={[
-                    styles.cartButtonText,
-                    inCart && styles.cartButtonTextAdded,
+                    styles.cartButton,
+                    inCart && styles.cartButtonAdded,
+                    atLimit && styles.cartButtonDisabled,
                   ]}
-                  numberOfLines={1}
+                  activeOpacity={0.85}
+                  accessibilityRole="button"
+                  accessibilityState={{ disabled: atLimit }}
+                  accessibilityLabel={atLimit ? `${title}: ${stockHint}` : `Add ${title} to cart`}
                 >
-                  {inCart ? 'Add' : 'Add'}
-                </Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        );
-      }}
-      refreshing={refreshing}
-      onRefresh={handleRefresh}
-      ListEmptyComponent={listEmptyComponent}
-      ListFooterComponent={
-        !isInitialLoading && products.length > 0 ? (
-          <View style={styles.footerSpacer} />
-        ) : null
-      }
-    />
+                  <Ionicons
+                    name={inCart ? "add" : "cart-outline"}
+                    size={16}
+                    color={inCart ? '#0C2B4E' : '#ffffff'}
+                  />
+                  <Text
+                    style={[
+                      styles.cartButtonText,
+                      inCart && styles.cartButtonTextAdded,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {inCart ? 'Add' : 'Add'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </TouchableOpacity>
+          );
+        }}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={listEmptyComponent}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          !isInitialLoading && results.length > 0 ? (
+            isPaging ? (
+              <ListFooter loadingMore={isFetchingNextPage} reachedEnd={!hasNextPage} />
+            ) : (
+              <View style={styles.footerSpacer} />
+            )
+          ) : null
+        }
+      />
+      <FilterSheet
+        visible={isFilterSheetVisible}
+        filters={filters}
+        categories={categoryOptions}
+        priceBounds={priceBounds}
+        onApply={handleApplyFilters}
+        onClose={() => setFilterSheetVisible(false)}
+      />
+      <SortSheet
+        visible={isSortSheetVisible}
+        sortKey={sortKey}
+        onSelect={handleSelectSort}
+        onClose={() => setSortSheetVisible(false)}
+      />
+    </>
   );
 }
 
+function ListFooter({ loadingMore, reachedEnd }: { loadingMore: boolean; reachedEnd: boolean }) {
+  if (loadingMore) {
+    return (
+      <View style={styles.footerStatus}>
+        <ActivityIndicator size="small" color="#ffffff" />
+      </View>
+    );
+  }
+
+  if (reachedEnd) {
+    return (
+      <View style={styles.footerStatus}>
+        <View style={styles.footerRule} />
+        <Text style={styles.footerText}>You've seen everything</Text>
+        <View style={styles.footerRule} />
+      </View>
+    );
+  }
+
+  return <View style={styles.footerSpacer} />;
+}
+
 function ProductLoadingCard() {
   return (
     <View style={[styles.card, styles.skeletonCard]}>
@@ -309,9 +487,6 @@ const styles = StyleSheet.create({
   },
   emptyListContainer: {
     flexGrow: 1,
-    justifyContent: 'center',
-    paddingHorizontal: CONTENT_PADDING,
-    paddingBottom: LIST_BOTTOM_GUTTER,
   },
   card: {
     backgroundColor: '#fff',
@@ -390,6 +565,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 4,
   },
+  titleHighlight: {
+    backgroundColor: '#fef08a',
+    color: '#0C2B4E',
+  },
   price: {
     fontSize: 14,
     fontWeight: '700',
@@ -421,6 +600,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#0C2B4E',
   },
+  cartButtonDisabled: {
+    opacity: 0.45,
+  },
+  stockHint: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#b45309',
+    marginBottom: 6,
+  },
   cartButtonText: {
     color: '#ffffff',
     fontSize: 12,
@@ -433,4 +621,23 @@ const styles = StyleSheet.create({
   footerSpacer: {
     height: 16,
   },
+  footerStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 20,
+  },
+  footerRule: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: 'rgba(255,255,255,0.25)',
+  },
+  footerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
 });
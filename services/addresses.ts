@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import { Address } from '../utils/address';
+
+const text = z.string().trim().min(1);
+
+const addressSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]).transform(String),
+    label: z.string().nullish(),
+    line1: text,
+    line2: z.string().nullish(),
+    city: text,
+    state: text,
+    postalCode: z.union([z.string(), z.number()]).transform(String).optional(),
+    pincode: z.union([z.string(), z.number()]).transform(String).optional(),
+    isDefault: z.boolean().nullish(),
+  })
+  .loose()
+  .refine((raw) => raw.postalCode ?? raw.pincode, { message: 'Address has no postal code' })
+  .transform(
+    (raw): Address => ({
+      id: raw.id,
+      label: raw.label?.trim() || 'Address',
+      line1: raw.line1,
+      line2: raw.line2?.trim() || undefined,
+      city: raw.city,
+      state: raw.state,
+      postalCode: (raw.postalCode ?? raw.pincode) as string,
+      isDefault: raw.isDefault ?? false,
+    })
+  );
+
+const parseAddresses = (payload: unknown): Address[] => {
+  const body = (payload ?? {}) as { data?: unknown; addresses?: unknown };
+  const records = Array.isArray(payload) ? payload : (body.data ?? body.addresses ?? []);
+  if (!Array.isArray(records)) return [];
+
+  // One malformed address shouldn't hide the rest.
+  const addresses: Address[] = [];
+  for (const record of records) {
+    const parsed = addressSchema.safeParse(record);
+    if (parsed.success) {
+      addresses.push(parsed.data);
+    } else if (__DEV__) {
+      console.warn('[addresses] dropped unparseable address', parsed.error.issues);
+    }
+  }
+  return addresses;
+};
+
+// The signed-in account's saved addresses; orders and subscriptions are only
+// ever placed against these.
+export const fetchAddresses = async (): Promise<Address[]> => {
+  const response = await apiClient.get('/addresses');
+  return parseAddresses(response.data);
+};
+
+// Replaces the saved set, as edited together in the profile drawer. New
+// addresses carry a local id; the server's response has the real ones.
+export const saveAddresses = async (addresses: Address[]): Promise<Address[]> => {
+  const response = await apiClient.put('/addresses', { addresses });
+  return parseAddresses(response.data);
+};
+
+export const getAddressesErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    switch (error.response?.status) {
+      case undefined:
+        return 'No connection. Check your internet and try again.';
+      case 422:
+        return 'One of the addresses is incomplete or outside our delivery area.';
+    }
+  }
+  return 'We could not save your addresses. Please try again.';
+};
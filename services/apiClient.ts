@@ -0,0 +1,104 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+  API_BASE_URL,
+  API_MAX_RETRIES,
+  API_RETRY_BASE_DELAY_MS,
+  API_TIMEOUT_MS,
+} from './config';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set on auth endpoints so a 401 there never recurses into a refresh.
+    skipAuthRefresh?: boolean;
+    _retryCount?: number;
+    _authRetried?: boolean;
+  }
+}
+
+type AuthHandlers = {
+  getAccessToken: () => string | null | undefined;
+  // Resolves with the new access token, or null when the session is gone.
+  // Rejects when the refresh could not be completed (offline, timeout, 5xx);
+  // the session is kept and only the request that triggered it fails.
+  refreshAccessToken: () => Promise<string | null>;
+  onSessionExpired: () => void;
+};
+
+let authHandlers: AuthHandlers | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+
+export const configureApiAuth = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: API_TIMEOUT_MS,
+  headers: { Accept: 'application/json' },
+});
+
+const RETRYABLE_METHODS = new Set(['get', 'head', 'options']);
+
+const isRetryable = (error: AxiosError) => {
+  const method = error.config?.method?.toLowerCase() ?? 'get';
+  if (!RETRYABLE_METHODS.has(method)) return false;
+  if (!error.response) return true; // network error or timeout
+  return error.response.status >= 500 || error.response.status === 429;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Concurrent 401s share one refresh call; every queued request waits on it.
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = (authHandlers?.refreshAccessToken() ?? Promise.resolve(null)).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+apiClient.interceptors.request.use(async (config) => {
+  if (refreshPromise && !config.skipAuthRefresh) {
+    // A failed refresh is reported by the request that started it.
+    await refreshPromise.catch(() => undefined);
+  }
+
+  const token = authHandlers?.getAccessToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as InternalAxiosRequestConfig | undefined;
+  if (!config) {
+    throw error;
+  }
+
+  if (error.response?.status === 401 && !config.skipAuthRefresh && !config._authRetried) {
+    config._authRetried = true;
+    let token: string | null;
+    try {
+      token = await refreshAccessToken();
+    } catch {
+      throw error;
+    }
+    if (!token) {
+      authHandlers?.onSessionExpired();
+      throw error;
+    }
+    config.headers.Authorization = `Bearer ${token}`;
+    return apiClient(config);
+  }
+
+  const attempt = config._retryCount ?? 0;
+  if (attempt < API_MAX_RETRIES && isRetryable(error)) {
+    config._retryCount = attempt + 1;
+    await wait(API_RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return apiClient(config);
+  }
+
+  throw error;
+});
@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { apiClient } from './apiClient';
+
+export type AuthMode = 'email' | 'mobile';
+
+export type OtpRequest = {
+  mode: AuthMode;
+  email?: string;
+  mobile?: string;
+};
+
+export type VerifyOtpRequest = OtpRequest & {
+  otp: string;
+};
+
+export type OtpDispatch = {
+  // Seconds the server wants us to wait before another resend.
+  resendAfterSeconds: number;
+};
+
+export type AuthUser = {
+  id: string;
+  email?: string;
+  mobile?: string;
+  name?: string;
+};
+
+export type AuthSession = {
+  accessToken: string;
+  refreshToken: string;
+  user: AuthUser;
+};
+
+export type AuthErrorCode =
+  | 'INVALID_OTP'
+  | 'OTP_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'USER_NOT_FOUND'
+  | 'SESSION_EXPIRED'
+  | 'NETWORK'
+  | 'UNKNOWN';
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+  retryAfterSeconds?: number;
+
+  constructor(code: AuthErrorCode, message?: string, retryAfterSeconds?: number) {
+    super(message ?? code);
+    this.name = 'AuthError';
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const DEFAULT_RESEND_SECONDS = 30;
+
+// Server error codes we know about. Anything else falls back to the HTTP status.
+const SERVER_ERROR_CODES: Record<string, AuthErrorCode> = {
+  OTP_INVALID: 'INVALID_OTP',
+  INVALID_OTP: 'INVALID_OTP',
+  OTP_MISMATCH: 'INVALID_OTP',
+  OTP_EXPIRED: 'OTP_EXPIRED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  TOO_MANY_REQUESTS: 'RATE_LIMITED',
+  USER_NOT_FOUND: 'USER_NOT_FOUND',
+  UNKNOWN_USER: 'USER_NOT_FOUND',
+};
+
+// Codes the refresh endpoint uses when it rejects the refresh token itself.
+const REFRESH_REJECTED_CODES = new Set([
+  'INVALID_TOKEN',
+  'TOKEN_EXPIRED',
+  'TOKEN_REVOKED',
+  'INVALID_REFRESH_TOKEN',
+  'REFRESH_TOKEN_INVALID',
+  'REFRESH_TOKEN_EXPIRED',
+]);
+
+const isRefreshRejected = (error: unknown) => {
+  if (!axios.isAxiosError(error) || !error.response) return false;
+  const { status, data } = error.response;
+  const code = (data as { code?: unknown } | undefined)?.code;
+  return (
+    status === 401 ||
+    status === 403 ||
+    (typeof code === 'string' && REFRESH_REJECTED_CODES.has(code.toUpperCase()))
+  );
+};
+
+const toAuthError = (error: unknown): AuthError => {
+  if (error instanceof AuthError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new AuthError('UNKNOWN');
+  }
+
+  if (!error.response) {
+    return new AuthError('NETWORK', error.message);
+  }
+
+  const { status, data, headers } = error.response;
+  const body = (data ?? {}) as { code?: unknown; message?: unknown; retryAfter?: unknown };
+  const serverMessage = typeof body.message === 'string' ? body.message : undefined;
+  const retryHeader = Number(headers?.['retry-after']);
+  const retryAfterSeconds =
+    typeof body.retryAfter === 'number'
+      ? body.retryAfter
+      : Number.isFinite(retryHeader)
+        ? retryHeader
+        : undefined;
+
+  const mapped =
+    typeof body.code === 'string' ? SERVER_ERROR_CODES[body.code.toUpperCase()] : undefined;
+  if (mapped) {
+    return new AuthError(mapped, serverMessage, retryAfterSeconds);
+  }
+
+  if (status === 429) return new AuthError('RATE_LIMITED', serverMessage, retryAfterSeconds);
+  if (status === 404) return new AuthError('USER_NOT_FOUND', serverMessage);
+  if (status === 410) return new AuthError('OTP_EXPIRED', serverMessage);
+  if (status === 401 || status === 422) return new AuthError('INVALID_OTP', serverMessage);
+
+  return new AuthError('UNKNOWN', serverMessage);
+};
+
+const toIdentifier = ({ mode, email, mobile }: OtpRequest) =>
+  mode === 'email'
+    ? { mode, email: email?.trim().toLowerCase() }
+    : { mode, mobile: mobile?.trim() };
+
+const toOtpDispatch = (payload: unknown): OtpDispatch => {
+  const seconds = (payload as { resendAfterSeconds?: unknown } | null)?.resendAfterSeconds;
+  return {
+    resendAfterSeconds:
+      typeof seconds === 'number' && seconds >= 0 ? seconds : DEFAULT_RESEND_SECONDS,
+  };
+};
+
+const toAuthSession = (payload: unknown): AuthSession => {
+  const body = (payload ?? {}) as Partial<AuthSession> & { data?: Partial<AuthSession> };
+  const session = body.data ?? body;
+
+  if (
+    typeof session.accessToken !== 'string' ||
+    typeof session.refreshToken !== 'string' ||
+    !session.user
+  ) {
+    throw new AuthError('UNKNOWN', 'Malformed session in verify response');
+  }
+
+  return {
+    accessToken: session.accessToken,
+    refreshToken: session.refreshToken,
+    user: session.user,
+  };
+};
+
+export const sendOtp = async (request: OtpRequest): Promise<OtpDispatch> => {
+  try {
+    const response = await apiClient.post('/auth/otp/send', toIdentifier(request), {
+      skipAuthRefresh: true,
+    });
+    return toOtpDispatch(response.data);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+export const resendOtp = async (request: OtpRequest): Promise<OtpDispatch> => {
+  try {
+    const response = await apiClient.post('/auth/otp/resend', toIdentifier(request), {
+      skipAuthRefresh: true,
+    });
+    return toOtpDispatch(response.data);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+export const verifyOtp = async ({ otp, ...request }: VerifyOtpRequest): Promise<AuthSession> => {
+  try {
+    const response = await apiClient.post(
+      '/auth/otp/verify',
+      { ...toIdentifier(request), otp: otp.trim() },
+      { skipAuthRefresh: true }
+    );
+    return toAuthSession(response.data);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+// Refresh responses may omit the user, so the current one is carried over.
+export const refreshSession = async ({ refreshToken, user }: AuthSession): Promise<AuthSession> => {
+  try {
+    const response = await apiClient.post(
+      '/auth/refresh',
+      { refreshToken },
+      { skipAuthRefresh: true }
+    );
+    const body = (response.data ?? {}) as { data?: object };
+    return toAuthSession({ user, ...(body.data ?? body) });
+  } catch (error) {
+    // Only a rejected refresh token ends the session. Being offline, a timeout
+    // or a 5xx surface as their usual codes and leave the session in place.
+    if (isRefreshRejected(error)) {
+      throw new AuthError('SESSION_EXPIRED');
+    }
+    throw toAuthError(error);
+  }
+};
+
+// Best effort: the local session is cleared by the caller whether or not this succeeds.
+export const logout = async (refreshToken?: string): Promise<void> => {
+  try {
+    await apiClient.post('/auth/logout', { refreshToken }, { skipAuthRefresh: true });
+  } catch {
+    // Server-side revocation failing must never block signing out locally
+  }
+};
+
+export const getAuthErrorMessage = (error: unknown): string => {
+  const { code, retryAfterSeconds } = toAuthError(error);
+
+  switch (code) {
+    case 'INVALID_OTP':
+      return 'Invalid OTP. Please check the code and try again.';
+    case 'OTP_EXPIRED':
+      return 'This OTP has expired. Request a new code to continue.';
+    case 'RATE_LIMITED':
+      return retryAfterSeconds
+        ? `Too many attempts. Try again in ${retryAfterSeconds}s.`
+        : 'Too many attempts. Please wait a moment and try again.';
+    case 'USER_NOT_FOUND':
+      return 'We could not find an account with those details.';
+    case 'SESSION_EXPIRED':
+      return 'Your session has expired. Please sign in again.';
+    case 'NETWORK':
+      return 'No connection. Check your internet and try again.';
+    default:
+      return 'Something went wrong. Please try again.';
+  }
+};
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import { CatalogProduct, toCatalogProduct } from '../utils/products';
+
+// Lines are identified by the backend's product id, never by the local cart key,
+// which for id-less products is a sku or a hash the server has never seen.
+export type CartLine = {
+  productId: string;
+  sku: string | null;
+  quantity: number;
+};
+
+// The account's cart as the server sees it, with current prices and stock.
+export type ServerCart = {
+  items: { product: CatalogProduct; quantity: number }[];
+};
+
+const serverCartSchema = z
+  .object({
+    items: z
+      .array(
+        z
+          .object({
+            product: z.unknown(),
+            quantity: z.coerce.number().int().nonnegative(),
+          })
+          .loose()
+      )
+      .default([]),
+  })
+  .loose();
+
+const parseServerCart = (payload: unknown): ServerCart => {
+  const body = (payload ?? {}) as { data?: unknown };
+  const parsed = serverCartSchema.parse(body.data ?? body);
+
+  const items: ServerCart['items'] = [];
+  for (const entry of parsed.items) {
+    const product = toCatalogProduct(entry.product);
+    if (product && entry.quantity > 0) {
+      items.push({ product, quantity: entry.quantity });
+    }
+  }
+  return { items };
+};
+
+export const fetchServerCart = async (): Promise<ServerCart> => {
+  const response = await apiClient.get('/cart');
+  return parseServerCart(response.data);
+};
+
+// Replaces the account's cart. The response may differ from what was sent:
+// the server drops unavailable products, caps quantities and reprices lines.
+export const replaceServerCart = async (lines: CartLine[]): Promise<ServerCart> => {
+  const response = await apiClient.put('/cart', {
+    items: lines.map((line) => ({
+      productId: line.productId,
+      sku: line.sku,
+      quantity: line.quantity,
+    })),
+  });
+  return parseServerCart(response.data);
+};
@@ -1 +1,65 @@
-export const API_BASE_URL = "https://api.aquakart.co.in/v1";
\ No newline at end of file
+import Constants from 'expo-constants';
+
+export type AppEnv = 'development' | 'staging' | 'production';
+
+type ExtraConfig = {
+  appEnv?: AppEnv;
+  apiBaseUrls?: Partial<Record<AppEnv, string>>;
+  support?: Partial<SupportContact>;
+};
+
+export type SupportContact = {
+  // E.164, e.g. +919876543210
+  phone: string | null;
+  email: string | null;
+  // Digits only, as wa.me expects.
+  whatsapp: string | null;
+};
+
+const APP_ENVS: AppEnv[] = ['development', 'staging', 'production'];
+
+const extra = (Constants.expoConfig?.extra ?? {}) as ExtraConfig;
+
+const resolveAppEnv = (): AppEnv => {
+  const candidate = process.env.EXPO_PUBLIC_APP_ENV ?? extra.appEnv;
+  if (candidate && (APP_ENVS as string[]).includes(candidate)) {
+    return candidate as AppEnv;
+  }
+  return __DEV__ ? 'development' : 'production';
+};
+
+export const APP_ENV = resolveAppEnv();
+
+// EXPO_PUBLIC_API_BASE_URL wins over app.json so a local mock server can be
+// targeted without editing config, e.g. EXPO_PUBLIC_API_BASE_URL=http://localhost:4000
+// Development and staging have no app.json entry: Expo Go on a device talks to
+// the real API, and staging builds must set EXPO_PUBLIC_API_BASE_URL.
+export const API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_BASE_URL ??
+  extra.apiBaseUrls?.[APP_ENV] ??
+  'https://api.aquakart.co.in/v1';
+
+export const API_TIMEOUT_MS = 15000;
+
+// Idempotent requests only; see services/apiClient.ts
+export const API_MAX_RETRIES = 2;
+export const API_RETRY_BASE_DELAY_MS = 500;
+
+export type PaymentProviderId = 'razorpay' | 'fake';
+
+// The fake provider settles payments locally, so development never touches a
+// real gateway. EXPO_PUBLIC_PAYMENT_PROVIDER=razorpay exercises the real flow.
+export const PAYMENT_PROVIDER: PaymentProviderId =
+  process.env.EXPO_PUBLIC_PAYMENT_PROVIDER === 'razorpay' ||
+  process.env.EXPO_PUBLIC_PAYMENT_PROVIDER === 'fake'
+    ? process.env.EXPO_PUBLIC_PAYMENT_PROVIDER
+    : APP_ENV === 'development'
+      ? 'fake'
+      : 'razorpay';
+
+// Channels left out of app.json are simply not offered in the app.
+export const SUPPORT_CONTACT: SupportContact = {
+  phone: extra.support?.phone ?? null,
+  email: extra.support?.email ?? null,
+  whatsapp: extra.support?.whatsapp ?? null,
+};
@@ -0,0 +1,160 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import { Coupon, PricingLineInput, toPaise } from '../utils/pricing';
+
+export type CouponErrorCode =
+  | 'NOT_FOUND'
+  | 'EXPIRED'
+  | 'MIN_ORDER_NOT_MET'
+  | 'NOT_APPLICABLE'
+  | 'USAGE_LIMIT_REACHED'
+  | 'NETWORK'
+  | 'UNKNOWN';
+
+export class CouponError extends Error {
+  code: CouponErrorCode;
+
+  constructor(code: CouponErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = 'CouponError';
+    this.code = code;
+  }
+}
+
+const SERVER_ERROR_CODES: Record<string, CouponErrorCode> = {
+  COUPON_NOT_FOUND: 'NOT_FOUND',
+  INVALID_COUPON: 'NOT_FOUND',
+  COUPON_EXPIRED: 'EXPIRED',
+  EXPIRED: 'EXPIRED',
+  MIN_ORDER_NOT_MET: 'MIN_ORDER_NOT_MET',
+  MIN_ORDER_VALUE: 'MIN_ORDER_NOT_MET',
+  NOT_APPLICABLE: 'NOT_APPLICABLE',
+  COUPON_NOT_APPLICABLE: 'NOT_APPLICABLE',
+  USAGE_LIMIT_REACHED: 'USAGE_LIMIT_REACHED',
+  ALREADY_USED: 'USAGE_LIMIT_REACHED',
+};
+
+const COUPON_ERROR_MESSAGES: Record<CouponErrorCode, string> = {
+  NOT_FOUND: "That code doesn't exist. Check the spelling and try again.",
+  EXPIRED: 'This code has expired.',
+  MIN_ORDER_NOT_MET: "Your cart doesn't meet this code's minimum order value yet.",
+  NOT_APPLICABLE: "This code doesn't apply to the items in your cart.",
+  USAGE_LIMIT_REACHED: "You've already used this code the maximum number of times.",
+  NETWORK: "We couldn't check this code. Check your connection and try again.",
+  UNKNOWN: "We couldn't apply this code right now. Please try again.",
+};
+
+// The server's own wording wins when it sends one; it knows the specifics.
+export const getCouponErrorMessage = (error: unknown): string => {
+  if (error instanceof CouponError) {
+    return error.code === 'NETWORK' || error.message === error.code
+      ? COUPON_ERROR_MESSAGES[error.code]
+      : error.message;
+  }
+  return COUPON_ERROR_MESSAGES.UNKNOWN;
+};
+
+const toCouponError = (code: unknown, message: unknown, status?: number): CouponError => {
+  const mapped = typeof code === 'string' ? SERVER_ERROR_CODES[code.toUpperCase()] : undefined;
+  const serverMessage = typeof message === 'string' && message.trim() ? message : undefined;
+  if (mapped) return new CouponError(mapped, serverMessage);
+  if (status === 404) return new CouponError('NOT_FOUND', serverMessage);
+  if (status === 410) return new CouponError('EXPIRED', serverMessage);
+  if (status === 422) return new CouponError('NOT_APPLICABLE', serverMessage);
+  return new CouponError('UNKNOWN', serverMessage);
+};
+
+const rupees = z.coerce.number().nonnegative();
+
+// Amounts arrive in rupees, like product prices.
+const couponSchema = z
+  .object({
+    code: z.string().trim().min(1),
+    type: z.enum(['percentage', 'flat', 'free_delivery', 'buy_x_get_y', 'bxgy']),
+    value: rupees.optional(),
+    maxDiscount: rupees.nullish(),
+    minOrderValue: rupees.nullish(),
+    buyQuantity: z.coerce.number().int().positive().optional(),
+    getQuantity: z.coerce.number().int().positive().optional(),
+    productIds: z.array(z.union([z.string(), z.number()]).transform(String)).nullish(),
+    description: z.string().nullish(),
+  })
+  .loose();
+
+const validationSchema = z
+  .object({
+    valid: z.boolean().default(true),
+    coupon: z.unknown().optional(),
+    code: z.string().optional(),
+    reason: z.string().optional(),
+    message: z.string().optional(),
+  })
+  .loose();
+
+const toCoupon = (payload: unknown): Coupon => {
+  const parsed = couponSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new CouponError('UNKNOWN');
+  }
+  const raw = parsed.data;
+  const base = {
+    code: raw.code.toUpperCase(),
+    description: raw.description ?? null,
+    minSubtotalPaise: toPaise(raw.minOrderValue ?? 0),
+  };
+
+  switch (raw.type) {
+    case 'percentage':
+      return {
+        ...base,
+        kind: 'percentage',
+        // value is a percentage, e.g. 10 for 10%.
+        percentBps: Math.round((raw.value ?? 0) * 100),
+        maxDiscountPaise: raw.maxDiscount == null ? null : toPaise(raw.maxDiscount),
+      };
+    case 'flat':
+      return { ...base, kind: 'flat', amountPaise: toPaise(raw.value ?? 0) };
+    case 'free_delivery':
+      return { ...base, kind: 'free_delivery' };
+    case 'buy_x_get_y':
+    case 'bxgy':
+      return {
+        ...base,
+        kind: 'buy_x_get_y',
+        buyQuantity: raw.buyQuantity ?? 1,
+        freeQuantity: raw.getQuantity ?? 1,
+        productKeys: raw.productIds?.length ? raw.productIds : null,
+      };
+  }
+};
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// Checks a code against the current cart. Resolves with the coupon's rules, or
+// rejects with a CouponError explaining why it can't be used.
+export const validateCoupon = async (code: string, lines: PricingLineInput[]): Promise<Coupon> => {
+  try {
+    const response = await apiClient.post('/coupons/validate', {
+      code: normalizeCouponCode(code),
+      // Lines without a backend id can't be named to the server; checkout rejects them anyway.
+      items: lines.flatMap(({ product, quantity }) =>
+        product.id ? [{ productId: product.id, sku: product.sku, quantity }] : []
+      ),
+    });
+    const body = (response.data ?? {}) as { data?: unknown };
+    const result = validationSchema.parse(body.data ?? body);
+    if (!result.valid) {
+      throw toCouponError(result.code ?? result.reason, result.message);
+    }
+    return toCoupon(result.coupon ?? body.data ?? body);
+  } catch (error) {
+    if (error instanceof CouponError) throw error;
+    if (axios.isAxiosError(error)) {
+      if (!error.response) throw new CouponError('NETWORK', error.message);
+      const data = (error.response.data ?? {}) as { code?: unknown; reason?: unknown; message?: unknown };
+      throw toCouponError(data.code ?? data.reason, data.message, error.response.status);
+    }
+    throw new CouponError('UNKNOWN');
+  }
+};
@@ -0,0 +1,572 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import { Address } from '../utils/address';
+import { CheckoutLine, DeliverySlot, PaymentMethod } from '../utils/checkout';
+import { PriceBreakdown } from '../utils/pricing';
+import {
+  OrderStatus,
+  OrderStatusEvent,
+  RefundStatus,
+  ReturnStatus,
+  normalizeOrderStatus,
+  normalizeRefundStatus,
+} from '../utils/orders';
+import { CatalogProduct, getProductTitle, toCatalogProduct } from '../utils/products';
+import { PaymentStatus } from './payments';
+
+export const ORDERS_PAGE_SIZE = 10;
+
+export type OrderItem = {
+  // Matches the catalog's product key when the product is still known.
+  productKey: string;
+  // Catalog identifiers as recorded on the order; productKey may only be the name.
+  productId: string | null;
+  sku: string | null;
+  name: string;
+  quantity: number;
+  // Rupees per unit, as charged on this order; null when neither the order nor the product says.
+  unitPrice: number | null;
+  // The product as it was embedded in the order, when the server sends it.
+  product: CatalogProduct | null;
+};
+
+// Amounts in paise, as charged; mirrors the totals sent when the order was placed.
+// taxPaise is the GST contained in the goods, not an extra charge.
+export type OrderTotals = {
+  subtotalPaise: number;
+  discountPaise: number;
+  taxPaise: number;
+  depositPaise: number;
+  deliveryFeePaise: number;
+  roundOffPaise: number;
+  totalPaise: number;
+};
+
+export type OrderRefund = {
+  status: RefundStatus;
+  // Rupees; null until the server has settled on the amount.
+  amount: number | null;
+};
+
+export type OrderReturnRequest = {
+  status: ReturnStatus;
+  reason: string | null;
+};
+
+export type Order = {
+  id: string;
+  status: OrderStatus;
+  // ISO timestamp; null if the server left it out.
+  placedAt: string | null;
+  // Every status change the server recorded, oldest first.
+  statusHistory: OrderStatusEvent[];
+  items: OrderItem[];
+  total: number;
+  // null for orders whose breakdown the server doesn't send.
+  totals: OrderTotals | null;
+  couponCode: string | null;
+  paymentMethod: PaymentMethod | null;
+  paymentStatus: PaymentStatus | null;
+  deliverySlot: { date: string; window: string } | null;
+  deliveryAddress: DeliveryAddress | null;
+  // Issued once the order is dispatched.
+  invoiceUrl: string | null;
+  // Set once a cancellation or return leads to money going back.
+  refund: OrderRefund | null;
+  returnRequest: OrderReturnRequest | null;
+};
+
+export type OrdersPage = {
+  orders: Order[];
+  page: number;
+  // null once the last page has been served.
+  nextPage: number | null;
+};
+
+export type CreateOrderRequest = {
+  lines: CheckoutLine[];
+  address: Address;
+  slot: DeliverySlot;
+  paymentMethod: PaymentMethod;
+  // Totals as shown to the user; the server recomputes and rejects a mismatch.
+  pricing: PriceBreakdown;
+  couponCode: string | null;
+  // Same key on a retry, so a timed-out request can't place the order twice.
+  idempotencyKey: string;
+};
+
+export type PlacedOrder = {
+  id: string;
+  status: string;
+  total: number | null;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+};
+
+const placedOrderSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]).transform(String).optional(),
+    orderId: z.union([z.string(), z.number()]).transform(String).optional(),
+    status: z.string().optional(),
+    // Not coerced: a null total must stay "unknown", not become 0.
+    total: z.number().nullish().catch(null),
+    paymentStatus: z
+      .enum(['pending', 'paid', 'failed', 'cancelled', 'pay_on_delivery'])
+      .optional()
+      .catch(undefined),
+  })
+  .loose()
+  .refine((order) => order.id ?? order.orderId, { message: 'Order has no id' });
+
+export const createOrder = async (request: CreateOrderRequest): Promise<PlacedOrder> => {
+  const { address, slot } = request;
+  const unidentified = request.lines.filter((line) => !line.product.id);
+  if (unidentified.length > 0) {
+    throw new UnorderableItemsError(unidentified.map((line) => getProductTitle(line.product)));
+  }
+  const response = await apiClient.post(
+    '/orders',
+    {
+      items: request.lines.map((line) => ({
+        productId: line.product.id,
+        sku: line.product.sku,
+        quantity: line.quantity,
+      })),
+      addressId: address.id,
+      address: toAddressPayload(address),
+      deliverySlot: { date: slot.date, window: slot.window },
+      paymentMethod: request.paymentMethod,
+      couponCode: request.couponCode,
+      totals: {
+        subtotalPaise: request.pricing.subtotalPaise,
+        discountPaise: request.pricing.discountPaise,
+        taxPaise: request.pricing.taxPaise,
+        depositPaise: request.pricing.depositPaise,
+        deliveryFeePaise: request.pricing.deliveryFeePaise,
+        roundOffPaise: request.pricing.roundOffPaise,
+        totalPaise: request.pricing.totalPaise,
+      },
+    },
+    { headers: { 'Idempotency-Key': request.idempotencyKey } }
+  );
+  const body = (response.data ?? {}) as { data?: unknown };
+  const order = placedOrderSchema.parse(body.data ?? body);
+  if (order.total === 0 && request.lines.length > 0) {
+    throw new OrderTotalError();
+  }
+  return {
+    id: (order.id ?? order.orderId) as string,
+    status: order.status ?? 'placed',
+    total: order.total ?? null,
+    paymentMethod: request.paymentMethod,
+    // Online payments are collected after the order exists.
+    paymentStatus:
+      order.paymentStatus ?? (request.paymentMethod === 'cod' ? 'pay_on_delivery' : 'pending'),
+  };
+};
+
+// The server priced a non-empty order at nothing. Payment is never collected
+// against that total; support has to look at the order first.
+export class OrderTotalError extends Error {
+  constructor() {
+    super('Order was placed with a zero total');
+    this.name = 'OrderTotalError';
+  }
+}
+
+// Cart lines whose product has no backend id; the server has no way to tell
+// which product they are, so the order is not sent.
+export class UnorderableItemsError extends Error {
+  titles: string[];
+
+  constructor(titles: string[]) {
+    super('Cart has products without a backend id');
+    this.name = 'UnorderableItemsError';
+    this.titles = titles;
+  }
+}
+
+export const getOrderErrorMessage = (error: unknown): string => {
+  if (error instanceof OrderTotalError) {
+    return "We couldn't confirm your order total. Please contact support before paying.";
+  }
+  if (error instanceof UnorderableItemsError) {
+    return `${error.titles.join(', ')} can't be ordered online right now. Remove ${
+      error.titles.length > 1 ? 'them' : 'it'
+    } from your cart and try again.`;
+  }
+  if (axios.isAxiosError(error)) {
+    switch (error.response?.status) {
+      case undefined:
+        return 'No connection. Check your internet and try again.';
+      case 409:
+        return 'Some items changed price or went out of stock. Review your cart and try again.';
+      case 422:
+        return 'We could not deliver to this address or slot. Please pick another.';
+    }
+  }
+  return 'We could not place your order. Please try again.';
+};
+
+const id = z.union([z.string(), z.number()]).transform(String);
+
+// Amounts occasionally arrive as numeric strings ("120.00"). Unlike z.coerce, a null
+// or blank value is rejected instead of quietly becoming 0.
+const amount = z.union([
+  z.number(),
+  z.string().trim().regex(/^-?\d+(\.\d+)?$/).transform(Number),
+]);
+
+const PAYMENT_METHOD_VALUES = ['upi', 'card', 'netbanking', 'cod'] as const;
+const PAYMENT_STATUS_VALUES = ['pending', 'paid', 'failed', 'cancelled', 'pay_on_delivery'] as const;
+
+const orderItemSchema = z
+  .object({
+    productId: id.nullish(),
+    sku: z.string().nullish(),
+    name: z.string().nullish(),
+    title: z.string().nullish(),
+    quantity: z.coerce.number().int().positive(),
+    price: amount.nullish().catch(null),
+    unitPrice: amount.nullish().catch(null),
+    product: z.unknown().optional(),
+  })
+  .loose()
+  .transform((raw): OrderItem => {
+    const product = raw.product === undefined ? null : toCatalogProduct(raw.product);
+    const name = raw.name ?? raw.title ?? product?.title ?? 'Item';
+    return {
+      productKey: product?.key ?? raw.productId ?? raw.sku ?? name,
+      productId: raw.productId ?? product?.id ?? null,
+      sku: raw.sku ?? product?.sku ?? null,
+      name,
+      quantity: raw.quantity,
+      unitPrice: raw.unitPrice ?? raw.price ?? product?.price ?? null,
+      product,
+    };
+  });
+
+export type DeliveryAddress = { label: string | null; lines: string[] };
+
+// The address as stored on an order or subscription, reduced to display lines.
+export const deliveryAddressSchema = z
+  .object({
+    label: z.string().nullish(),
+    line1: z.string().nullish(),
+    line2: z.string().nullish(),
+    city: z.string().nullish(),
+    state: z.string().nullish(),
+    postalCode: z.string().nullish(),
+  })
+  .loose();
+
+export const toDeliveryAddress = (address: z.infer<typeof deliveryAddressSchema>): DeliveryAddress => {
+  const cityLine = [address.city, [address.state, address.postalCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    label: address.label ?? null,
+    lines: [address.line1, address.line2, cityLine].filter((line): line is string => Boolean(line)),
+  };
+};
+
+// What the API expects when an address is sent along with a request.
+export const toAddressPayload = (address: Address) => ({
+  label: address.label,
+  line1: address.line1,
+  line2: address.line2 ?? null,
+  city: address.city,
+  state: address.state,
+  postalCode: address.postalCode,
+});
+
+const statusEventSchema = z
+  .object({
+    status: z.string(),
+    at: z.string().nullish(),
+    timestamp: z.string().nullish(),
+    createdAt: z.string().nullish(),
+  })
+  .loose()
+  .transform(
+    (raw): OrderStatusEvent => ({
+      status: normalizeOrderStatus(raw.status),
+      at: raw.at ?? raw.timestamp ?? raw.createdAt ?? null,
+    })
+  );
+
+// A missing or malformed component counts as nothing rather than rejecting the breakdown.
+const paise = amount.pipe(z.number().int()).catch(0);
+
+const orderTotalsSchema = z
+  .object({
+    subtotalPaise: paise,
+    discountPaise: paise,
+    taxPaise: paise,
+    depositPaise: paise,
+    deliveryFeePaise: paise,
+    roundOffPaise: paise,
+    // Required: a breakdown without its total is dropped rather than shown as ₹0.
+    totalPaise: amount.pipe(z.number().int()),
+  })
+  .loose();
+
+const orderSchema = z
+  .object({
+    id: id.optional(),
+    orderId: id.optional(),
+    status: z.string().nullish(),
+    placedAt: z.string().nullish(),
+    placedOn: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    statusHistory: z.array(z.unknown()).optional(),
+    timeline: z.array(z.unknown()).optional(),
+    items: z.array(z.unknown()).default([]),
+    total: amount.nullish().catch(null),
+    totals: orderTotalsSchema.nullish().catch(null),
+    couponCode: z.string().nullish(),
+    invoiceUrl: z.string().url().nullish().catch(null),
+    refund: z
+      .object({ status: z.string(), amount: amount.nullish().catch(null) })
+      .loose()
+      .nullish()
+      .catch(null),
+    returnRequest: z
+      .object({
+        status: z.enum(['requested', 'approved', 'picked_up', 'rejected']),
+        reason: z.string().nullish(),
+      })
+      .loose()
+      .nullish()
+      .catch(null),
+    paymentMethod: z.enum(PAYMENT_METHOD_VALUES).nullish().catch(null),
+    paymentStatus: z.enum(PAYMENT_STATUS_VALUES).nullish().catch(null),
+    deliverySlot: z.object({ date: z.string(), window: z.string() }).loose().nullish().catch(null),
+    address: deliveryAddressSchema.nullish().catch(null),
+  })
+  .loose()
+  .refine((order) => order.id ?? order.orderId, { message: 'Order has no id' })
+  .transform((raw): Order => {
+    // A malformed line is dropped rather than hiding the whole order.
+    const items: OrderItem[] = [];
+    for (const entry of raw.items) {
+      const parsed = orderItemSchema.safeParse(entry);
+      if (parsed.success) items.push(parsed.data);
+    }
+
+    const statusHistory: OrderStatusEvent[] = [];
+    for (const entry of raw.statusHistory ?? raw.timeline ?? []) {
+      const parsed = statusEventSchema.safeParse(entry);
+      if (parsed.success) statusHistory.push(parsed.data);
+    }
+
+
+    return {
+      id: (raw.id ?? raw.orderId) as string,
+      status: normalizeOrderStatus(raw.status),
+      placedAt: raw.placedAt ?? raw.placedOn ?? raw.createdAt ?? null,
+      statusHistory,
+      items,
+      // Derived from the priced lines only when the server sends no total at all.
+      total:
+        raw.total ??
+        (raw.totals ? raw.totals.totalPaise / 100 : null) ??
+        items.reduce((sum, item) => sum + (item.unitPrice ?? 0) * item.quantity, 0),
+      totals: raw.totals ?? null,
+      couponCode: raw.couponCode ?? null,
+      paymentMethod: raw.paymentMethod ?? null,
+      paymentStatus: raw.paymentStatus ?? null,
+      deliverySlot: raw.deliverySlot ? { date: raw.deliverySlot.date, window: raw.deliverySlot.window } : null,
+      deliveryAddress: raw.address ? toDeliveryAddress(raw.address) : null,
+      invoiceUrl: raw.invoiceUrl ?? null,
+      refund: raw.refund
+        ? { status: normalizeRefundStatus(raw.refund.status), amount: raw.refund.amount ?? null }
+        : null,
+      returnRequest: raw.returnRequest
+        ? { status: raw.returnRequest.status, reason: raw.returnRequest.reason ?? null }
+        : null,
+    };
+  });
+
+const ordersPageSchema = z
+  .object({
+    data: z.array(z.unknown()).optional(),
+    items: z.array(z.unknown()).optional(),
+    orders: z.array(z.unknown()).optional(),
+    page: z.coerce.number().optional(),
+    nextPage: z.coerce.number().nullish(),
+    hasMore: z.boolean().optional(),
+    totalPages: z.coerce.number().optional(),
+  })
+  .loose();
+
+const parseOrders = (records: unknown[]): Order[] => {
+  const orders: Order[] = [];
+  for (const record of records) {
+    const parsed = orderSchema.safeParse(record);
+    if (parsed.success) {
+      orders.push(parsed.data);
+    } else if (__DEV__) {
+      console.warn('[orders] dropped unparseable order', parsed.error.issues);
+    }
+  }
+  return orders;
+};
+
+export const fetchOrdersPage = async ({
+  page,
+  limit = ORDERS_PAGE_SIZE,
+}: {
+  page: number;
+  limit?: number;
+}): Promise<OrdersPage> => {
+  const response = await apiClient.get('/orders', { params: { page, limit } });
+  const payload: unknown = response.data;
+
+  // A bare array means the server ignored page/limit and sent everything.
+  if (Array.isArray(payload)) {
+    return { orders: parseOrders(payload), page, nextPage: null };
+  }
+
+  const meta = ordersPageSchema.parse(payload ?? {});
+  const records = meta.data ?? meta.orders ?? meta.items ?? [];
+  const currentPage = meta.page ?? page;
+  const hasMore =
+    meta.nextPage !== undefined
+      ? meta.nextPage !== null
+      : meta.hasMore ?? (meta.totalPages !== undefined ? currentPage < meta.totalPages : records.length >= limit);
+
+  return {
+    orders: parseOrders(records),
+    page: currentPage,
+    nextPage: hasMore ? (meta.nextPage ?? currentPage + 1) : null,
+  };
+};
+
+export const fetchOrder = async (orderId: string): Promise<Order> => {
+  const response = await apiClient.get(`/orders/${encodeURIComponent(orderId)}`);
+  const body = (response.data ?? {}) as { data?: unknown };
+  return orderSchema.parse(body.data ?? body);
+};
+
+export type OrderRequestErrorCode =
+  | 'NOT_ELIGIBLE'
+  | 'NOT_FOUND'
+  | 'PHOTO_TOO_LARGE'
+  | 'NETWORK'
+  | 'UNKNOWN';
+
+export class OrderRequestError extends Error {
+  code: OrderRequestErrorCode;
+
+  constructor(code: OrderRequestErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = 'OrderRequestError';
+    this.code = code;
+  }
+}
+
+const ORDER_REQUEST_ERROR_MESSAGES: Record<OrderRequestErrorCode, string> = {
+  NOT_ELIGIBLE: "This order can't be changed any more. Pull to refresh to see its latest status.",
+  NOT_FOUND: "We couldn't find this order.",
+  PHOTO_TOO_LARGE: 'Those photos are too large to upload. Try fewer or smaller photos.',
+  NETWORK: 'No connection. Check your internet and try again.',
+  UNKNOWN: "We couldn't send your request. Please try again.",
+};
+
+// The server's own wording wins when it sends one; it knows the specifics.
+export const getOrderRequestErrorMessage = (error: unknown): string => {
+  if (error instanceof OrderRequestError) {
+    return error.code === 'NETWORK' || error.message === error.code
+      ? ORDER_REQUEST_ERROR_MESSAGES[error.code]
+      : error.message;
+  }
+  return ORDER_REQUEST_ERROR_MESSAGES.UNKNOWN;
+};
+
+const toOrderRequestError = (error: unknown): OrderRequestError => {
+  if (error instanceof OrderRequestError) return error;
+  if (!axios.isAxiosError(error)) return new OrderRequestError('UNKNOWN');
+  if (!error.response) return new OrderRequestError('NETWORK', error.message);
+
+  const data = (error.response.data ?? {}) as { message?: unknown };
+  const serverMessage =
+    typeof data.message === 'string' && data.message.trim() ? data.message : undefined;
+  switch (error.response.status) {
+    case 404:
+      return new OrderRequestError('NOT_FOUND', serverMessage);
+    case 409:
+    case 422:
+      return new OrderRequestError('NOT_ELIGIBLE', serverMessage);
+    case 413:
+      return new OrderRequestError('PHOTO_TOO_LARGE');
+    default:
+      return new OrderRequestError('UNKNOWN', serverMessage);
+  }
+};
+
+// Some endpoints answer with the updated order, others with a bare acknowledgement.
+const parseUpdatedOrder = async (orderId: string, payload: unknown): Promise<Order> => {
+  const body = (payload ?? {}) as { data?: unknown };
+  const parsed = orderSchema.safeParse(body.data ?? body);
+  return parsed.success ? parsed.data : fetchOrder(orderId);
+};
+
+export type CancelOrderRequest = {
+  orderId: string;
+  reason: string;
+  note: string | null;
+};
+
+export const cancelOrder = async ({ orderId, reason, note }: CancelOrderRequest): Promise<Order> => {
+  try {
+    const response = await apiClient.post(`/orders/${encodeURIComponent(orderId)}/cancel`, {
+      reason,
+      note,
+    });
+    return await parseUpdatedOrder(orderId, response.data);
+  } catch (error) {
+    throw toOrderRequestError(error);
+  }
+};
+
+// A local file from the camera or photo library.
+export type OrderPhoto = {
+  uri: string;
+  name: string;
+  mimeType: string;
+};
+
+export type ReturnOrderRequest = {
+  orderId: string;
+  reason: string;
+  note: string | null;
+  photos: OrderPhoto[];
+};
+
+export const requestReturn = async ({
+  orderId,
+  reason,
+  note,
+  photos,
+}: ReturnOrderRequest): Promise<Order> => {
+  const form = new FormData();
+  form.append('reason', reason);
+  if (note) form.append('note', note);
+  for (const photo of photos) {
+    // React Native's FormData reads files from { uri, name, type }.
+    form.append('photos', { uri: photo.uri, name: photo.name, type: photo.mimeType } as unknown as Blob);
+  }
+
+  try {
+    const response = await apiClient.post(`/orders/${encodeURIComponent(orderId)}/returns`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      // Photo uploads on a slow connection outlast the default timeout.
+      timeout: 60000,
+    });
+    return await parseUpdatedOrder(orderId, response.data);
+  } catch (error) {
+    throw toOrderRequestError(error);
+  }
+};
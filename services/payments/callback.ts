@@ -0,0 +1,32 @@
+import { PaymentCallback } from './types';
+
+const CALLBACK_PATH = 'payments/callback';
+
+// aquakart://payments/callback?intent=<id>&status=success&payment_id=...&signature=...
+export const parsePaymentCallback = (url: string): PaymentCallback | null => {
+  const match = url.match(/^[a-z][a-z0-9+.-]*:\/\/\/?([^?#]*)\??([^#]*)/i);
+  if (!match || match[1].replace(/\/$/, '') !== CALLBACK_PATH) return null;
+
+  const params: Record<string, string> = {};
+  for (const pair of match[2].split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  }
+
+  const intentId = params.intent;
+  if (!intentId) return null;
+
+  switch (params.status) {
+    case 'success':
+      return params.payment_id
+        ? { intentId, status: 'success', paymentId: params.payment_id, signature: params.signature }
+        : null;
+    case 'failed':
+      return { intentId, status: 'failed', reason: params.reason };
+    case 'cancelled':
+      return { intentId, status: 'cancelled' };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,18 @@
+import { PaymentProvider } from './types';
+
+// Nothing to collect up front: the order is confirmed and the courier takes
+// payment at the door.
+export const cashOnDeliveryProvider: PaymentProvider = {
+  id: 'cod',
+  supports: (method) => method === 'cod',
+  createIntent: async ({ orderId, method, amount }) => ({
+    id: `cod_${orderId}`,
+    orderId,
+    method,
+    amount,
+    currency: 'INR',
+  }),
+  confirm: async (intent) => ({ intentId: intent.id, status: 'pay_on_delivery' }),
+  handleCallback: () => null,
+  cancel: async () => {},
+};
@@ -0,0 +1,72 @@
+import { apiClient } from '../apiClient';
+import { parsePaymentCallback } from './callback';
+import { PaymentIntent, PaymentProvider, PaymentResult } from './types';
+
+export type FakePaymentOutcome = 'success' | 'failure' | 'cancel';
+
+type FakePaymentOptions = {
+  outcome?: FakePaymentOutcome;
+  // Simulated time spent on the gateway.
+  delayMs?: number;
+};
+
+const ONLINE_METHODS = new Set(['upi', 'card', 'netbanking']);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readOutcome = (value: string | undefined): FakePaymentOutcome =>
+  value === 'failure' || value === 'cancel' ? value : 'success';
+
+// Reports the simulated outcome through the verify endpoint the Razorpay path
+// uses, so a development or mock backend can mark the order paid. A backend
+// that doesn't know fake intents just rejects it, and the app keeps the
+// local result.
+const reportOutcome = async (intent: PaymentIntent, result: PaymentResult) => {
+  try {
+    await apiClient.post(`/payments/intents/${encodeURIComponent(intent.id)}/verify`, {
+      provider: 'fake',
+      orderId: intent.orderId,
+      status: result.status,
+      paymentId: result.paymentId,
+    });
+  } catch {
+    // Development only; the local outcome stands either way.
+  }
+};
+
+const settle = (intent: PaymentIntent, outcome: FakePaymentOutcome): PaymentResult => {
+  switch (outcome) {
+    case 'failure':
+      return { intentId: intent.id, status: 'failed', reason: 'The payment was declined.' };
+    case 'cancel':
+      return { intentId: intent.id, status: 'cancelled', reason: 'The payment was cancelled.' };
+    default:
+      return { intentId: intent.id, status: 'paid', paymentId: `fake_pay_${intent.orderId}` };
+  }
+};
+
+// Settles every payment with a fixed outcome and ids derived from the order, so
+// the same order always produces the same result. No real gateway is involved.
+export const createFakePaymentProvider = ({
+  outcome = readOutcome(process.env.EXPO_PUBLIC_FAKE_PAYMENT_OUTCOME),
+  delayMs = 1200,
+}: FakePaymentOptions = {}): PaymentProvider => ({
+  id: 'fake',
+  supports: (method) => ONLINE_METHODS.has(method),
+  createIntent: async ({ orderId, method, amount }) => ({
+    id: `fake_intent_${orderId}`,
+    orderId,
+    method,
+    amount,
+    currency: 'INR',
+    gatewayOrderId: `fake_order_${orderId}`,
+  }),
+  confirm: async (intent): Promise<PaymentResult> => {
+    await wait(delayMs);
+    const result = settle(intent, outcome);
+    await reportOutcome(intent, result);
+    return result;
+  },
+  handleCallback: parsePaymentCallback,
+  cancel: async () => {},
+});
@@ -0,0 +1,53 @@
+import { PAYMENT_PROVIDER } from '../config';
+import { PaymentMethod } from '../../utils/checkout';
+import { cashOnDeliveryProvider } from './cashOnDelivery';
+import { createFakePaymentProvider } from './fake';
+import { razorpayProvider } from './razorpay';
+import { PaymentProvider, PaymentResult, PaymentStatus } from './types';
+
+export type {
+  PaymentCallback,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentResult,
+  PaymentStatus,
+} from './types';
+export { parsePaymentCallback } from './callback';
+
+const onlineProvider: PaymentProvider =
+  PAYMENT_PROVIDER === 'razorpay' ? razorpayProvider : createFakePaymentProvider();
+
+const PROVIDERS: PaymentProvider[] = [cashOnDeliveryProvider, onlineProvider];
+
+export const getPaymentProvider = (method: PaymentMethod): PaymentProvider => {
+  const provider = PROVIDERS.find((candidate) => candidate.supports(method));
+  if (!provider) {
+    throw new Error(`No payment provider supports ${method}`);
+  }
+  return provider;
+};
+
+export type PayForOrderRequest = {
+  orderId: string;
+  method: PaymentMethod;
+  amount: number;
+};
+
+// Collects payment for an already-placed order. Declines and cancellations
+// resolve with that status; only transport errors reject.
+export const payForOrder = async ({ orderId, method, amount }: PayForOrderRequest): Promise<PaymentResult> => {
+  const provider = getPaymentProvider(method);
+  const intent = await provider.createIntent({ orderId, method, amount });
+  return provider.confirm(intent);
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Payment pending',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  cancelled: 'Payment cancelled',
+  pay_on_delivery: 'Pay on delivery',
+};
+
+export const isPaymentRetryable = (status: PaymentStatus) =>
+  status === 'failed' || status === 'cancelled' || status === 'pending';
@@ -0,0 +1,154 @@
+import { AppState, Linking } from 'react-native';
+import { z } from 'zod';
+import { apiClient } from '../apiClient';
+import { parsePaymentCallback } from './callback';
+import { PaymentCallback, PaymentIntent, PaymentProvider, PaymentResult } from './types';
+
+// After the browser is dismissed, the redirect can arrive a moment later.
+const CALLBACK_GRACE_MS = 1500;
+
+const ONLINE_METHODS = new Set(['upi', 'card', 'netbanking']);
+
+const id = z.union([z.string(), z.number()]).transform(String);
+
+const intentSchema = z
+  .object({
+    id,
+    gatewayOrderId: id.optional(),
+    razorpayOrderId: id.optional(),
+    // Razorpay amounts are in paise.
+    amount: z.coerce.number(),
+    currency: z.literal('INR').default('INR'),
+    checkoutUrl: z.string().url(),
+  })
+  .loose();
+
+const paymentStatusSchema = z
+  .object({
+    status: z.enum(['pending', 'paid', 'failed', 'cancelled']).catch('pending'),
+    paymentId: id.optional(),
+    reason: z.string().optional(),
+  })
+  .loose();
+
+const unwrap = (payload: unknown) => {
+  const body = (payload ?? {}) as { data?: unknown };
+  return body.data ?? body;
+};
+
+const fetchIntentStatus = async (intentId: string) => {
+  const response = await apiClient.get(`/payments/intents/${encodeURIComponent(intentId)}`);
+  return paymentStatusSchema.parse(unwrap(response.data));
+};
+
+// Resolves with the gateway's redirect, or `null` if the user came back to the
+// app without one (closed the browser, switched apps) or `stop` was called.
+const waitForCallback = (intent: PaymentIntent) => {
+  let stop = () => {};
+  const promise = new Promise<PaymentCallback | null>((resolve) => {
+    let leftApp = AppState.currentState !== 'active';
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (callback: PaymentCallback | null) => {
+      urlSubscription.remove();
+      appStateSubscription.remove();
+      if (graceTimer) clearTimeout(graceTimer);
+      resolve(callback);
+    };
+
+    const urlSubscription = Linking.addEventListener('url', ({ url }) => {
+      const callback = parsePaymentCallback(url);
+      if (callback?.intentId === intent.id) finish(callback);
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status !== 'active') {
+        leftApp = true;
+        if (graceTimer) clearTimeout(graceTimer);
+        graceTimer = null;
+      } else if (leftApp && !graceTimer) {
+        graceTimer = setTimeout(() => finish(null), CALLBACK_GRACE_MS);
+      }
+    });
+
+    stop = () => finish(null);
+  });
+  return { promise, stop: () => stop() };
+};
+
+const settle = async (intent: PaymentIntent, callback: PaymentCallback | null): Promise<PaymentResult> => {
+  if (callback?.status === 'success') {
+    // The signature is only trusted once the server has checked it.
+    const response = await apiClient.post(
+      `/payments/intents/${encodeURIComponent(intent.id)}/verify`,
+      {
+        gatewayOrderId: intent.gatewayOrderId,
+        paymentId: callback.paymentId,
+        signature: callback.signature,
+      }
+    );
+    const verified = paymentStatusSchema.parse(unwrap(response.data));
+    return { intentId: intent.id, ...verified, paymentId: verified.paymentId ?? callback.paymentId };
+  }
+
+  if (callback?.status === 'failed') {
+    return { intentId: intent.id, status: 'failed', reason: callback.reason ?? 'The payment was declined.' };
+  }
+
+  // No redirect: a webhook may still have captured the payment, so ask before
+  // treating it as abandoned.
+  if (!callback) {
+    const current = await fetchIntentStatus(intent.id);
+    if (current.status !== 'pending') {
+      return { intentId: intent.id, ...current };
+    }
+  }
+
+  await razorpayProvider.cancel(intent).catch(() => {});
+  return { intentId: intent.id, status: 'cancelled', reason: 'The payment was cancelled.' };
+};
+
+// UPI, cards and net banking through Razorpay's hosted checkout. The server
+// owns the Razorpay keys: it creates the gateway order, and verifies the
+// signature on the way back.
+export const razorpayProvider: PaymentProvider = {
+  id: 'razorpay',
+  supports: (method) => ONLINE_METHODS.has(method),
+  createIntent: async ({ orderId, method, amount }) => {
+    const response = await apiClient.post('/payments/intents', {
+      orderId,
+      method,
+      provider: 'razorpay',
+      amount: Math.round(amount * 100),
+      currency: 'INR',
+    });
+    const intent = intentSchema.parse(unwrap(response.data));
+    return {
+      id: intent.id,
+      orderId,
+      method,
+      amount: intent.amount / 100,
+      currency: intent.currency,
+      gatewayOrderId: intent.gatewayOrderId ?? intent.razorpayOrderId,
+      checkoutUrl: intent.checkoutUrl,
+    };
+  },
+  confirm: async (intent) => {
+    if (!intent.checkoutUrl) {
+      return { intentId: intent.id, status: 'failed', reason: 'The payment could not be started.' };
+    }
+    // Listen before opening, so a fast redirect can't slip past.
+    const callback = waitForCallback(intent);
+    try {
+      await Linking.openURL(intent.checkoutUrl);
+    } catch {
+      callback.stop();
+      return { intentId: intent.id, status: 'failed', reason: 'The payment page could not be opened.' };
+    }
+    return settle(intent, await callback.promise);
+  },
+  handleCallback: parsePaymentCallback,
+  cancel: async (intent) => {
+    await apiClient.post(`/payments/intents/${encodeURIComponent(intent.id)}/cancel`);
+  },
+};
@@ -0,0 +1,48 @@
+import { PaymentMethod } from '../../utils/checkout';
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'pay_on_delivery';
+
+export type PaymentIntent = {
+  id: string;
+  orderId: string;
+  method: PaymentMethod;
+  // Rupees, as shown to the user.
+  amount: number;
+  currency: 'INR';
+  // Gateway-side order id, e.g. Razorpay's order_XXXX.
+  gatewayOrderId?: string;
+  // Hosted checkout page that redirects back to aquakart://payments/callback.
+  checkoutUrl?: string;
+};
+
+// What the gateway reported when it handed control back to the app.
+export type PaymentCallback =
+  | { intentId: string; status: 'success'; paymentId: string; signature?: string }
+  | { intentId: string; status: 'failed'; reason?: string }
+  | { intentId: string; status: 'cancelled' };
+
+export type PaymentResult = {
+  intentId: string;
+  status: PaymentStatus;
+  paymentId?: string;
+  // User-facing explanation when the payment did not go through.
+  reason?: string;
+};
+
+export type CreateIntentRequest = {
+  orderId: string;
+  method: PaymentMethod;
+  amount: number;
+};
+
+export type PaymentProvider = {
+  id: string;
+  supports: (method: PaymentMethod) => boolean;
+  createIntent: (request: CreateIntentRequest) => Promise<PaymentIntent>;
+  // Runs the payment to completion: hands off to the gateway and resolves once
+  // it has succeeded, failed or been abandoned. Never rejects for a declined payment.
+  confirm: (intent: PaymentIntent) => Promise<PaymentResult>;
+  // Parses a gateway redirect; null when the URL isn't a payment callback.
+  handleCallback: (url: string) => PaymentCallback | null;
+  cancel: (intent: PaymentIntent) => Promise<void>;
+};
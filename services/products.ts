@@ -1,5 +1,170 @@
 import axios from 'axios';
-import {API_BASE_URL} from './config';
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import {
+  CatalogParseResult,
+  CatalogProduct,
+  catalogProductSchema,
+  parseCatalogProducts,
+} from '../utils/products';
 
+export const PRODUCTS_PAGE_SIZE = 20;
 
-export const fetchProducts = async () => axios.get(`${API_BASE_URL}/all-products`);
\ No newline at end of file
+export type ProductsPageRequest = {
+  page: number;
+  limit?: number;
+  // Server-side sort parameter, see utils/sort.ts.
+  sort?: string | null;
+};
+
+export type ProductsPage = {
+  products: CatalogProduct[];
+  page: number;
+  // null once the last page has been served.
+  nextPage: number | null;
+  total: number | null;
+  // False when a sort was requested but the server did not confirm applying it.
+  serverSorted: boolean;
+};
+
+const reportRejected = ({ rejected }: CatalogParseResult, endpoint: string) => {
+  if (__DEV__ && rejected.length > 0) {
+    console.warn(`[products] ${endpoint} rejected ${rejected.length} record(s)`, rejected);
+  }
+};
+
+export const fetchProducts = async (): Promise<CatalogParseResult> => {
+  const response = await apiClient.get('/all-products');
+  const result = parseCatalogProducts(response.data);
+  reportRejected(result, '/all-products');
+  return result;
+};
+
+export const fetchProduct = async (id: string): Promise<CatalogProduct> => {
+  const response = await apiClient.get(`/products/${encodeURIComponent(id)}`);
+  const body = (response.data ?? {}) as { data?: unknown };
+  return catalogProductSchema.parse(body.data ?? body);
+};
+
+const pageMetaSchema = z
+  .object({
+    page: z.coerce.number().optional(),
+    totalPages: z.coerce.number().optional(),
+    total: z.coerce.number().optional(),
+    hasMore: z.boolean().optional(),
+    nextPage: z.coerce.number().nullish(),
+    sort: z.string().nullish(),
+  })
+  .loose();
+
+const hasMorePages = (
+  meta: z.infer<typeof pageMetaSchema>,
+  page: number,
+  limit: number,
+  received: number
+) => {
+  if (meta.nextPage !== undefined) return meta.nextPage !== null;
+  if (meta.hasMore !== undefined) return meta.hasMore;
+  if (meta.totalPages !== undefined) return page < meta.totalPages;
+  if (meta.total !== undefined) return page * limit < meta.total;
+  // No hints at all: a full page suggests there is another one
+  return received >= limit;
+};
+
+// Statuses meaning "this backend has no such endpoint", not a real failure.
+const UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+const isUnsupportedEndpoint = (error: unknown) =>
+  axios.isAxiosError(error) && UNSUPPORTED_STATUSES.has(error.response?.status ?? 0);
+
+let paginationUnsupported = false;
+let searchUnsupported = false;
+
+export const isProductsPaginationSupported = () => !paginationUnsupported;
+
+// Resolves null when the backend only serves /all-products; callers then page
+// through the full list locally (see paginateProducts).
+export const fetchProductsPage = async ({
+  page,
+  limit = PRODUCTS_PAGE_SIZE,
+  sort = null,
+}: ProductsPageRequest): Promise<ProductsPage | null> => {
+  if (paginationUnsupported) {
+    return null;
+  }
+
+  let payload: unknown;
+  try {
+    const params = sort ? { page, limit, sort } : { page, limit };
+    const response = await apiClient.get('/products', { params });
+    payload = response.data;
+  } catch (error) {
+    if (isUnsupportedEndpoint(error)) {
+      paginationUnsupported = true;
+      return null;
+    }
+    throw error;
+  }
+
+  const result = parseCatalogProducts(payload);
+  reportRejected(result, '/products');
+
+  // A bare array means the server ignored page/limit and sent everything.
+  const meta = Array.isArray(payload) ? null : pageMetaSchema.safeParse(payload).data;
+  if (!meta) {
+    return {
+      products: result.products,
+      page,
+      nextPage: null,
+      total: result.products.length,
+      serverSorted: !sort,
+    };
+  }
+
+  const currentPage = meta.page ?? page;
+  const hasMore = hasMorePages(meta, currentPage, limit, result.products.length + result.rejected.length);
+
+  return {
+    products: result.products,
+    page: currentPage,
+    nextPage: hasMore ? (meta.nextPage ?? currentPage + 1) : null,
+    total: meta.total ?? null,
+    serverSorted: !sort || meta.sort === sort,
+  };
+};
+
+// Callers sort the full list before paging it, so pages count as sorted.
+export const paginateProducts = (
+  products: CatalogProduct[],
+  { page, limit = PRODUCTS_PAGE_SIZE }: ProductsPageRequest
+): ProductsPage => {
+  const start = (page - 1) * limit;
+  return {
+    products: products.slice(start, start + limit),
+    page,
+    nextPage: start + limit < products.length ? page + 1 : null,
+    total: products.length,
+    serverSorted: true,
+  };
+};
+
+// Resolves null when the backend has no search endpoint; callers then filter
+// the catalog locally (see utils/search.ts).
+export const searchProducts = async (query: string): Promise<CatalogProduct[] | null> => {
+  if (searchUnsupported) {
+    return null;
+  }
+
+  try {
+    const response = await apiClient.get('/products/search', { params: { q: query } });
+    const result = parseCatalogProducts(response.data);
+    reportRejected(result, '/products/search');
+    return result.products;
+  } catch (error) {
+    if (isUnsupportedEndpoint(error)) {
+      searchUnsupported = true;
+      return null;
+    }
+    throw error;
+  }
+};
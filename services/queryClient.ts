@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryClient } from '@tanstack/react-query';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+
+const ONE_MINUTE = 60 * 1000;
+const ONE_DAY = 24 * 60 * ONE_MINUTE;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * ONE_MINUTE,
+      // Must be at least PERSIST_MAX_AGE or restored entries are dropped straight away
+      gcTime: ONE_DAY,
+      // apiClient already retries idempotent requests
+      retry: false,
+    },
+  },
+});
+
+export const PERSIST_MAX_AGE = ONE_DAY;
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: 'aquakart.query-cache',
+  throttleTime: 1000,
+});
+
+export const queryKeys = {
+  products: ['products'] as const,
+  productPages: (sort: string) => ['products', 'pages', sort] as const,
+  product: (key: string) => ['products', 'detail', key] as const,
+  productSearch: (query: string) => ['products', 'search', query] as const,
+  orders: ['orders'] as const,
+  orderPages: ['orders', 'pages'] as const,
+  order: (id: string) => ['orders', 'detail', id] as const,
+  subscriptions: ['subscriptions'] as const,
+  addresses: ['addresses'] as const,
+  // The cart signature makes any cart edit re-validate the code.
+  coupon: (code: string, cartSignature: string) => ['coupons', code, cartSignature] as const,
+};
@@ -0,0 +1,42 @@
+import * as SecureStore from 'expo-secure-store';
+import { AuthSession } from './auth';
+
+const ACCESS_TOKEN_KEY = 'aquakart.session.accessToken';
+const REFRESH_TOKEN_KEY = 'aquakart.session.refreshToken';
+const USER_KEY = 'aquakart.session.user';
+
+export const loadStoredSession = async (): Promise<AuthSession | null> => {
+  try {
+    const [accessToken, refreshToken, user] = await Promise.all([
+      SecureStore.getItemAsync(ACCESS_TOKEN_KEY),
+      SecureStore.getItemAsync(REFRESH_TOKEN_KEY),
+      SecureStore.getItemAsync(USER_KEY),
+    ]);
+
+    if (!accessToken || !refreshToken || !user) {
+      return null;
+    }
+
+    return { accessToken, refreshToken, user: JSON.parse(user) };
+  } catch {
+    // Unreadable keychain entries or a corrupt user blob: treat as signed out
+    await clearStoredSession();
+    return null;
+  }
+};
+
+export const persistSession = async (session: AuthSession): Promise<void> => {
+  await Promise.all([
+    SecureStore.setItemAsync(ACCESS_TOKEN_KEY, session.accessToken),
+    SecureStore.setItemAsync(REFRESH_TOKEN_KEY, session.refreshToken),
+    SecureStore.setItemAsync(USER_KEY, JSON.stringify(session.user)),
+  ]);
+};
+
+export const clearStoredSession = async (): Promise<void> => {
+  await Promise.all(
+    [ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY].map((key) =>
+      SecureStore.deleteItemAsync(key).catch(() => {})
+    )
+  );
+};
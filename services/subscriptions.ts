@@ -0,0 +1,164 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import {
+  DeliveryAddress,
+  deliveryAddressSchema,
+  toAddressPayload,
+  toDeliveryAddress,
+} from './orders';
+import { Address } from '../utils/address';
+import { CatalogProduct, toCatalogProduct } from '../utils/products';
+import {
+  SubscriptionFrequency,
+  SubscriptionStatus,
+  Weekday,
+  isWeekday,
+} from '../utils/subscriptions';
+
+export type Subscription = {
+  id: string;
+  status: SubscriptionStatus;
+  productKey: string;
+  productName: string;
+  // The product as embedded by the server, when it sends one.
+  product: CatalogProduct | null;
+  quantity: number;
+  frequency: SubscriptionFrequency;
+  // YYYY-MM-DD
+  startDate: string;
+  // null while paused or once cancelled.
+  nextDeliveryDate: string | null;
+  skippedDates: string[];
+  deliveryAddress: DeliveryAddress | null;
+};
+
+export type CreateSubscriptionRequest = {
+  product: CatalogProduct;
+  quantity: number;
+  frequency: SubscriptionFrequency;
+  startDate: string;
+  address: Address;
+};
+
+export type SubscriptionAction = 'pause' | 'resume' | 'skip' | 'cancel';
+
+const id = z.union([z.string(), z.number()]).transform(String);
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}/).transform((value) => value.slice(0, 10));
+
+const subscriptionSchema = z
+  .object({
+    id,
+    status: z.enum(['active', 'paused', 'cancelled', 'canceled', 'unknown']).catch('unknown'),
+    productId: id.optional(),
+    productName: z.string().optional(),
+    product: z.unknown().optional(),
+    quantity: z.coerce.number().int().positive(),
+    frequency: z.enum(['daily', 'alternate_days', 'weekly', 'custom']),
+    weekdays: z.array(z.coerce.number()).default([]),
+    startDate: dateKey,
+    nextDeliveryDate: dateKey.nullish().catch(null),
+    skippedDates: z.array(dateKey).default([]).catch([]),
+    address: deliveryAddressSchema.nullish().catch(null),
+  })
+  .loose()
+  .transform((raw): Subscription => {
+    const product = raw.product === undefined ? null : toCatalogProduct(raw.product);
+    const weekdays = raw.weekdays.filter(isWeekday) as Weekday[];
+    const frequency: SubscriptionFrequency =
+      raw.frequency === 'custom' ? { kind: 'custom', weekdays } : { kind: raw.frequency };
+    const status = raw.status === 'canceled' ? 'cancelled' : raw.status;
+
+    return {
+      id: raw.id,
+      status,
+      productKey: product?.key ?? raw.productId ?? '',
+      productName: raw.productName ?? product?.title ?? 'Subscription',
+      product,
+      quantity: raw.quantity,
+      frequency,
+      startDate: raw.startDate,
+      nextDeliveryDate: status === 'active' ? (raw.nextDeliveryDate ?? null) : null,
+      skippedDates: raw.skippedDates,
+      deliveryAddress: raw.address ? toDeliveryAddress(raw.address) : null,
+    };
+  });
+
+const parseSubscription = (payload: unknown): Subscription => {
+  const body = (payload ?? {}) as { data?: unknown };
+  return subscriptionSchema.parse(body.data ?? body);
+};
+
+export const fetchSubscriptions = async (): Promise<Subscription[]> => {
+  const response = await apiClient.get('/subscriptions');
+  const payload = response.data as unknown;
+  const body = (payload ?? {}) as { data?: unknown; subscriptions?: unknown };
+  const records = Array.isArray(payload) ? payload : (body.data ?? body.subscriptions ?? []);
+  if (!Array.isArray(records)) return [];
+
+  // One malformed subscription shouldn't hide the rest.
+  const subscriptions: Subscription[] = [];
+  for (const record of records) {
+    const parsed = subscriptionSchema.safeParse(record);
+    if (parsed.success) {
+      subscriptions.push(parsed.data);
+    } else if (__DEV__) {
+      console.warn('[subscriptions] dropped unparseable subscription', parsed.error.issues);
+    }
+  }
+  return subscriptions;
+};
+
+export const fetchSubscription = async (subscriptionId: string): Promise<Subscription> => {
+  const response = await apiClient.get(`/subscriptions/${encodeURIComponent(subscriptionId)}`);
+  return parseSubscription(response.data);
+};
+
+export const createSubscription = async (
+  request: CreateSubscriptionRequest
+): Promise<Subscription> => {
+  const { frequency, address } = request;
+  const response = await apiClient.post('/subscriptions', {
+    productId: request.product.id,
+    sku: request.product.sku,
+    quantity: request.quantity,
+    frequency: frequency.kind,
+    weekdays: frequency.kind === 'custom' ? frequency.weekdays : [],
+    startDate: request.startDate,
+    addressId: address.id,
+    address: toAddressPayload(address),
+  });
+  return parseSubscription(response.data);
+};
+
+// Skip applies to the next scheduled delivery; pause holds every delivery
+// until resumed.
+export const updateSubscription = async ({
+  subscriptionId,
+  action,
+}: {
+  subscriptionId: string;
+  action: SubscriptionAction;
+}): Promise<Subscription> => {
+  const response = await apiClient.post(
+    `/subscriptions/${encodeURIComponent(subscriptionId)}/${action}`
+  );
+  const parsed = subscriptionSchema.safeParse(
+    (response.data as { data?: unknown } | undefined)?.data ?? response.data
+  );
+  return parsed.success ? parsed.data : fetchSubscription(subscriptionId);
+};
+
+export const getSubscriptionErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    switch (error.response?.status) {
+      case undefined:
+        return 'No connection. Check your internet and try again.';
+      case 409:
+        return 'This subscription changed in the meantime. Refresh and try again.';
+      case 422:
+        return 'We could not schedule deliveries to this address on those days. Try another address or schedule.';
+    }
+  }
+  return 'We could not update your subscription. Please try again.';
+};
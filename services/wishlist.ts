@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { apiClient } from './apiClient';
+import { CatalogProduct, toCatalogProduct } from '../utils/products';
+
+// One favourite toggle, as recorded on the device.
+export type WishlistChange = {
+  productKey: string;
+  favorite: boolean;
+  // Epoch ms on the device clock; the newer side wins a conflict.
+  updatedAt: number;
+};
+
+export type RemoteWishlist = {
+  items: { product: CatalogProduct; updatedAt: number }[];
+  // Tombstones for removals, so a stale device can't resurrect them.
+  removed: { productKey: string; updatedAt: number }[];
+};
+
+const timestamp = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const ms = typeof value === 'number' ? value : Date.parse(value);
+  if (Number.isNaN(ms)) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid timestamp' });
+    return z.NEVER;
+  }
+  return ms;
+});
+
+const remoteWishlistSchema = z
+  .object({
+    items: z
+      .array(z.object({ product: z.unknown(), updatedAt: timestamp }).loose())
+      .default([]),
+    removed: z
+      .array(
+        z
+          .object({ productId: z.union([z.string(), z.number()]).transform(String), removedAt: timestamp })
+          .loose()
+      )
+      .default([]),
+  })
+  .loose();
+
+const parseRemoteWishlist = (payload: unknown): RemoteWishlist => {
+  const body = (payload ?? {}) as { data?: unknown };
+  const parsed = remoteWishlistSchema.parse(body.data ?? body);
+
+  const items: RemoteWishlist['items'] = [];
+  for (const entry of parsed.items) {
+    const product = toCatalogProduct(entry.product);
+    if (product) {
+      items.push({ product, updatedAt: entry.updatedAt });
+    }
+  }
+
+  return {
+    items,
+    removed: parsed.removed.map((entry) => ({
+      productKey: entry.productId,
+      updatedAt: entry.removedAt,
+    })),
+  };
+};
+
+// Sends the device's unsynced toggles and gets back the account's wishlist
+// with them applied. An empty change list is a plain pull.
+export const syncWishlist = async (changes: WishlistChange[]): Promise<RemoteWishlist> => {
+  const response = await apiClient.post('/wishlist/sync', {
+    changes: changes.map((change) => ({
+      productId: change.productKey,
+      favorite: change.favorite,
+      updatedAt: new Date(change.updatedAt).toISOString(),
+    })),
+  });
+  return parseRemoteWishlist(response.data);
+};
@@ -0,0 +1,113 @@
+import { migrateCart, rekeyCartItems, useCartStore } from '../cartStore';
+import { toCatalogProduct } from '../../utils/products';
+
+const idLessCan = { name: '20L Mineral Water Can', price: 120, mrp: 150 };
+
+describe('rekeyCartItems', () => {
+  it('folds index- and Date.now()-keyed copies of a product into one line', () => {
+    const items = rekeyCartItems({
+      '0': { product: idLessCan, quantity: 2 },
+      '1712345678901': { product: { ...idLessCan }, quantity: 3 },
+    });
+
+    const lines = Object.values(items);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].quantity).toBe(5);
+    expect(Object.keys(items)[0]).toBe(toCatalogProduct(idLessCan)?.key);
+  });
+
+  it('matches legacy entries by backend id whichever field carried it', () => {
+    const items = rekeyCartItems({
+      '1': { product: { id: 42, name: 'Dispenser', price: 900 }, quantity: 1 },
+      '1712345678901': { product: { productId: '42', name: 'Dispenser', price: 900 }, quantity: 1 },
+    });
+
+    expect(Object.keys(items)).toEqual(['42']);
+    expect(items['42'].quantity).toBe(2);
+  });
+
+  it('drops entries that are unreadable or empty', () => {
+    const items = rekeyCartItems({
+      '0': { product: { price: 10 }, quantity: 1 },
+      '1': { product: idLessCan, quantity: 0 },
+    });
+    expect(items).toEqual({});
+  });
+});
+
+describe('migrateCart', () => {
+  const can = toCatalogProduct(idLessCan)!;
+
+  it('rekeys a v0 cart and fills in every later field', () => {
+    const migrated = migrateCart(
+      {
+        items: {
+          '0': { product: idLessCan, quantity: 1 },
+          '1712345678901': { product: idLessCan, quantity: 2 },
+        },
+      },
+      0
+    );
+
+    expect(migrated).toEqual({
+      items: { [can.key]: { product: can, quantity: 3 } },
+      couponCode: null,
+      hasUnsyncedEdits: false,
+    });
+  });
+
+  it('adds coupon and sync state to a v1 cart without touching its items', () => {
+    const items = { [can.key]: { product: can, quantity: 2 } };
+    expect(migrateCart({ items }, 1)).toEqual({ items, couponCode: null, hasUnsyncedEdits: false });
+  });
+
+  it('keeps a v2 coupon and assumes the server already has the cart', () => {
+    const migrated = migrateCart({ items: {}, couponCode: 'WATER10' }, 2);
+    expect(migrated).toEqual({ items: {}, couponCode: 'WATER10', hasUnsyncedEdits: false });
+  });
+
+  it('leaves current-version state alone', () => {
+    const state = { items: {}, couponCode: null, hasUnsyncedEdits: true };
+    expect(migrateCart(state, 3)).toBe(state);
+  });
+
+  it('turns malformed payloads into an empty cart instead of throwing', () => {
+    for (const payload of [null, 'cart', [1, 2], { items: 'nope' }, { items: [{ quantity: 1 }] }]) {
+      expect(migrateCart(payload, 0)).toEqual({
+        items: {},
+        couponCode: null,
+        hasUnsyncedEdits: false,
+      });
+    }
+  });
+
+  it('drops unreadable legacy lines but keeps the readable ones', () => {
+    const migrated = migrateCart(
+      {
+        items: {
+          '0': { product: idLessCan, quantity: 1 },
+          '1': { product: null, quantity: 4 },
+          '2': { product: idLessCan, quantity: -1 },
+        },
+      },
+      0
+    );
+    expect(migrated.items).toEqual({ [can.key]: { product: can, quantity: 1 } });
+  });
+});
+
+describe('useCartStore', () => {
+  beforeEach(() => useCartStore.getState().clear());
+
+  it('adds separately parsed copies of a product to the same line', () => {
+    const first = toCatalogProduct(idLessCan)!;
+    const second = toCatalogProduct({ ...idLessCan })!;
+
+    useCartStore.getState().incrementItem(first.key, first);
+    useCartStore.getState().incrementItem(second.key, second);
+
+    const { items } = useCartStore.getState();
+    expect(Object.keys(items)).toEqual([first.key]);
+    expect(items[first.key].quantity).toBe(2);
+  });
+});
@@ -0,0 +1,15 @@
+import { rekeyFavoriteItems } from '../favoritesStore';
+import { toCatalogProduct } from '../../utils/products';
+
+describe('rekeyFavoriteItems', () => {
+  it('moves legacy favourites onto their product key, once per product', () => {
+    const can = { name: '20L Mineral Water Can', price: 120, mrp: 150 };
+    const items = rekeyFavoriteItems({
+      '3': can,
+      '1712345678901': { ...can },
+      '4': { sku: 'BOTTLE-1L', name: '1L Bottle', price: 20 },
+    });
+
+    expect(Object.keys(items).sort()).toEqual(['BOTTLE-1L', toCatalogProduct(can)!.key].sort());
+  });
+});
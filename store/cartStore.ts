@@ -1,69 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
-import { Product } from '../utils/products';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  CatalogProduct,
+  QuantityLimit,
+  getProductQuantityLimit,
+  toCatalogProduct,
+} from '../utils/products';
 
 type CartEntry = {
-  product: Product;
+  product: CatalogProduct;
   quantity: number;
 };
 
-type CartItemsMap = Record<string, CartEntry>;
+export type CartItemsMap = Record<string, CartEntry>;
+
+// Why a line changed when the server reconciled the cart.
+export type CartNotice = {
+  key: string;
+  kind: 'removed' | 'quantity' | 'price';
+  message: string;
+};
+
+// What an add actually did. A refused add goes no further than the limit and says
+// which limit stopped it, so callers can explain instead of silently ignoring the tap.
+export type CartUpdateResult =
+  | { ok: true; quantity: number }
+  | { ok: false; reason: QuantityLimit['reason']; quantity: number; max: number };
+
+export const getCartLimitMessage = (reason: QuantityLimit['reason'], max: number): string => {
+  switch (reason) {
+    case 'out_of_stock':
+      return 'Out of stock';
+    case 'stock':
+      return `Only ${max} in stock`;
+    case 'max_per_order':
+      return `Limit ${max} per order`;
+  }
+};
 
 type CartState = {
   items: CartItemsMap;
-  incrementItem: (key: string, product: Product) => void;
+  // False until the persisted cart has been read back; until then an empty
+  // `items` means "not loaded yet", not "empty cart".
+  hasHydrated: boolean;
+  // Changes the server made during the last sync, until the user dismisses them.
+  notices: CartNotice[];
+  // Promo code the user entered. It stays attached while the cart changes and
+  // is re-validated against each new cart; see useCartPricing.
+  couponCode: string | null;
+  // True from a local edit until the server acknowledges the cart. Persisted, so
+  // a relaunch knows whether this device has edits the account hasn't seen.
+  hasUnsyncedEdits: boolean;
+  incrementItem: (key: string, product: CatalogProduct) => CartUpdateResult;
+  // Adds as many of `quantity` as the product's limit allows; a refusal still
+  // reports the quantity the line ended up with.
+  addItem: (key: string, product: CatalogProduct, quantity: number) => CartUpdateResult;
   decrementItem: (key: string) => void;
   removeItem: (key: string) => void;
   clear: () => void;
+  applyServerCart: (items: CartItemsMap, notices: CartNotice[]) => void;
+  dismissNotices: () => void;
+  setCouponCode: (code: string | null) => void;
 };
 
-export const useCartStore = create<CartState>((set, get) => ({
-  items: {},
-  incrementItem: (key, product) =>
-    set((state) => {
-      return {
-        items: {
-          ...state.items,
-          [key]: {
-            product,
-            quantity: (state.items[key]?.quantity ?? 0) + 1,
-          },
-        },
-      };
-    }),
-  decrementItem: (key) =>
-    set((state) => {
-      const entry = state.items[key];
-      if (!entry) {
-        return state;
-      }
-
-      const nextQuantity = entry.quantity - 1;
-
-      if (nextQuantity <= 0) {
-        const { [key]: _removed, ...rest } = state.items;
-        return { items: rest };
-      }
-
-      return {
-        items: {
-          ...state.items,
-          [key]: {
-            ...entry,
-            quantity: nextQuantity,
+// Moves entries saved under list-index or Date.now() keys onto their stable
+// product key, folding duplicates of the same product into one cart line.
+export const rekeyCartItems = (
+  items: Record<string, { product: unknown; quantity: number }>
+): CartItemsMap => {
+  const next: CartItemsMap = {};
+  for (const entry of Object.values(items)) {
+    const product = toCatalogProduct(entry?.product);
+    if (!product || !(entry.quantity > 0)) continue;
+    next[product.key] = {
+      product,
+      quantity: (next[product.key]?.quantity ?? 0) + entry.quantity,
+    };
+  }
+  return next;
+};
+
+const CART_STORAGE_KEY = 'aquakart.cart';
+
+// Bump when CartEntry changes shape and add a step to CART_MIGRATIONS that
+// turns the previous version's persisted state into the new one.
+const CART_STORAGE_VERSION = 3;
+
+type PersistedCart = {
+  items: CartItemsMap;
+  couponCode: string | null;
+  hasUnsyncedEdits: boolean;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Anything unreadable is dropped rather than allowed to crash the cart.
+const readCartItems = (value: unknown): CartItemsMap =>
+  isRecord(value) ? rekeyCartItems(value as Record<string, { product: unknown; quantity: number }>) : {};
+
+const CART_MIGRATIONS: Record<number, (state: unknown) => unknown> = {
+  // v0: entries keyed by list index or Date.now(), products in their raw API shape.
+  1: (state) => ({ items: readCartItems(isRecord(state) ? state.items : undefined) }),
+  // v1: no coupon support.
+  2: (state) => ({ ...(isRecord(state) ? state : {}), couponCode: null }),
+  // v2: sync state not tracked; assume the account already has this cart.
+  3: (state) => ({ ...(isRecord(state) ? state : {}), hasUnsyncedEdits: false }),
+};
+
+export const migrateCart = (persisted: unknown, fromVersion: number): PersistedCart => {
+  let state = persisted;
+  for (let version = fromVersion + 1; version <= CART_STORAGE_VERSION; version += 1) {
+    state = CART_MIGRATIONS[version]?.(state) ?? state;
+  }
+  return state as PersistedCart;
+};
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set, get) => ({
+      items: {},
+      hasHydrated: false,
+      notices: [],
+      couponCode: null,
+      hasUnsyncedEdits: false,
+      incrementItem: (key, product) => {
+        const quantity = get().items[key]?.quantity ?? 0;
+        const limit = getProductQuantityLimit(product);
+        if (quantity >= limit.max) {
+          return { ok: false, reason: limit.reason, quantity, max: limit.max };
+        }
+
+        set((state) => ({
+          items: {
+            ...state.items,
+            [key]: {
+              product,
+              quantity: quantity + 1,
+            },
           },
-        },
-      };
-    }),
-  removeItem: (key) =>
-    set((state) => {
-      if (!state.items[key]) {
-        return state;
-      }
-      const { [key]: _removed, ...rest } = state.items;
-      return { items: rest };
+          hasUnsyncedEdits: true,
+        }));
+        return { ok: true, quantity: quantity + 1 };
+      },
+      addItem: (key, product, quantity) => {
+        const current = get().items[key]?.quantity ?? 0;
+        const limit = getProductQuantityLimit(product);
+        const next = Math.min(current + Math.max(0, quantity), limit.max);
+
+        if (next > current) {
+          set((state) => ({
+            items: {
+              ...state.items,
+              [key]: { product, quantity: next },
+            },
+            hasUnsyncedEdits: true,
+          }));
+        }
+        return next === current + quantity
+          ? { ok: true, quantity: next }
+          : { ok: false, reason: limit.reason, quantity: Math.max(next, current), max: limit.max };
+      },
+      decrementItem: (key) =>
+        set((state) => {
+          const entry = state.items[key];
+          if (!entry) {
+            return state;
+          }
+
+          const nextQuantity = entry.quantity - 1;
+
+          if (nextQuantity <= 0) {
+            const { [key]: _removed, ...rest } = state.items;
+            return { items: rest, hasUnsyncedEdits: true };
+          }
+
+          return {
+            items: {
+              ...state.items,
+              [key]: {
+                ...entry,
+                quantity: nextQuantity,
+              },
+            },
+            hasUnsyncedEdits: true,
+          };
+        }),
+      removeItem: (key) =>
+        set((state) => {
+          if (!state.items[key]) {
+            return state;
+          }
+          const { [key]: _removed, ...rest } = state.items;
+          return { items: rest, hasUnsyncedEdits: true };
+        }),
+      clear: () => set({ items: {}, notices: [], couponCode: null, hasUnsyncedEdits: true }),
+      applyServerCart: (items, notices) =>
+        set((state) => ({
+          items,
+          hasUnsyncedEdits: false,
+          notices: notices.length > 0 ? notices : state.notices,
+        })),
+      dismissNotices: () => set({ notices: [] }),
+      setCouponCode: (couponCode) => set({ couponCode }),
     }),
-  clear: () => set({ items: {} }),
-}));
+    {
+      name: CART_STORAGE_KEY,
+      version: CART_STORAGE_VERSION,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state): PersistedCart => ({
+        items: state.items,
+        couponCode: state.couponCode,
+        hasUnsyncedEdits: state.hasUnsyncedEdits,
+      }),
+      migrate: migrateCart,
+      // Re-validate even current-version data: a product that no longer parses
+      // loses its line instead of breaking CartPage.
+      merge: (persisted, current) => ({
+        ...current,
+        items: readCartItems(isRecord(persisted) ? persisted.items : undefined),
+        couponCode:
+          isRecord(persisted) && typeof persisted.couponCode === 'string' ? persisted.couponCode : null,
+        hasUnsyncedEdits: isRecord(persisted) && persisted.hasUnsyncedEdits === true,
+      }),
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          // Unparseable JSON or a failed migration: start over with an empty cart.
+          AsyncStorage.removeItem(CART_STORAGE_KEY).catch(() => {});
+        }
+        useCartStore.setState({ hasHydrated: true });
+      },
+    }
+  )
+);
+
+export const selectCartHydrated = (state: CartState) => state.hasHydrated;
 
 export const selectCartCount = (state: CartState) =>
   Object.values(state.items).reduce((sum, entry) => sum + entry.quantity, 0);
@@ -0,0 +1,235 @@
+import axios from 'axios';
+import { AppState } from 'react-native';
+import { CartLine, ServerCart, fetchServerCart, replaceServerCart } from '../services/cart';
+import { getProductPrice, getProductTitle } from '../utils/products';
+import { CartItemsMap, CartNotice, useCartStore } from './cartStore';
+import { selectIsAuthenticated, useSessionStore } from './sessionStore';
+
+// Stepper taps land in quick succession; push once they settle.
+const PUSH_DEBOUNCE_MS = 800;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// merge: a user just signed in, so the device cart joins the account's.
+// restore: a relaunch with an existing session. The account's cart wins unless
+//   this device has edits the server never acknowledged, which are pushed.
+// push: send the local cart after an edit.
+type SyncMode = 'merge' | 'restore' | 'push';
+
+const MODE_PRIORITY: Record<SyncMode, number> = { push: 0, restore: 1, merge: 2 };
+
+// A pending merge or restore must not be downgraded to a plain push.
+const strongerMode = (current: SyncMode | null, next: SyncMode): SyncMode =>
+  current && MODE_PRIORITY[current] > MODE_PRIORITY[next] ? current : next;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let inFlight = false;
+let queuedMode: SyncMode | null = null;
+let failedAttempts = 0;
+// Bumped on every local edit, so a response can tell whether it is stale.
+let localRevision = 0;
+let applyingServerCart = false;
+
+const isRetryable = (error: unknown) => {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  const { status } = error.response;
+  return status >= 500 || status === 429 || status === 408;
+};
+
+// Products without a backend id can't be named to the server, so they stay in
+// the device cart only and are carried over whenever the server's cart is applied.
+const splitLocalOnly = (items: CartItemsMap) => {
+  const syncable: CartItemsMap = {};
+  const localOnly: CartItemsMap = {};
+  for (const [key, entry] of Object.entries(items)) {
+    if (entry.product.id) syncable[key] = entry;
+    else localOnly[key] = entry;
+  }
+  return { syncable, localOnly };
+};
+
+const toLines = (items: CartItemsMap): CartLine[] =>
+  Object.values(items).flatMap(({ product, quantity }) =>
+    product.id ? [{ productId: product.id, sku: product.sku, quantity }] : []
+  );
+
+// Same product in both carts keeps the larger quantity rather than the sum:
+// signing in again on the same device must not double everything.
+const mergeWithServer = (local: CartItemsMap, server: ServerCart): CartItemsMap => {
+  const merged: CartItemsMap = {};
+  for (const { product, quantity } of server.items) {
+    merged[product.key] = { product, quantity };
+  }
+  for (const [key, entry] of Object.entries(local)) {
+    merged[key] = {
+      product: merged[key]?.product ?? entry.product,
+      quantity: Math.max(merged[key]?.quantity ?? 0, entry.quantity),
+    };
+  }
+  return merged;
+};
+
+const formatPrice = (price: number) => `₹${price.toFixed(0)}`;
+
+// What the server changed relative to what we asked for.
+const describeAdjustments = (requested: CartItemsMap, server: ServerCart): CartNotice[] => {
+  const returned = new Map(server.items.map((entry) => [entry.product.key, entry]));
+  const notices: CartNotice[] = [];
+
+  for (const [key, entry] of Object.entries(requested)) {
+    const title = getProductTitle(entry.product);
+    const match = returned.get(key);
+    if (!match) {
+      notices.push({ key, kind: 'removed', message: `${title} is no longer available and was removed.` });
+      continue;
+    }
+    if (match.quantity < entry.quantity) {
+      notices.push({
+        key,
+        kind: 'quantity',
+        message: `Only ${match.quantity} of ${title} available; quantity updated.`,
+      });
+    }
+    const before = getProductPrice(entry.product);
+    const after = getProductPrice(match.product);
+    if (before !== null && after !== null && before !== after) {
+      notices.push({
+        key,
+        kind: 'price',
+        message: `${title} is now ${formatPrice(after)} (was ${formatPrice(before)}).`,
+      });
+    }
+  }
+
+  return notices;
+};
+
+const toItemsMap = (server: ServerCart): CartItemsMap => {
+  const items: CartItemsMap = {};
+  for (const { product, quantity } of server.items) {
+    items[product.key] = { product, quantity };
+  }
+  return items;
+};
+
+const schedule = (mode: SyncMode, delay: number) => {
+  queuedMode = strongerMode(queuedMode, mode);
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    void run();
+  }, delay);
+};
+
+const run = async () => {
+  const mode = queuedMode;
+  if (
+    !mode ||
+    !selectIsAuthenticated(useSessionStore.getState()) ||
+    !useCartStore.getState().hasHydrated
+  ) {
+    return;
+  }
+  if (inFlight) {
+    // queuedMode is picked up once the current request settles.
+    return;
+  }
+
+  queuedMode = null;
+  inFlight = true;
+  const userId = useSessionStore.getState().session?.user.id;
+  const revision = localRevision;
+
+  try {
+    const { items: allItems, hasUnsyncedEdits } = useCartStore.getState();
+    const { syncable: items, localOnly } = splitLocalOnly(allItems);
+    // Adopting the account's cart is not a request, so it produces no notices.
+    let requested: CartItemsMap | null = items;
+    let server: ServerCart;
+    if (mode === 'merge') {
+      requested = mergeWithServer(items, await fetchServerCart());
+      server = await replaceServerCart(toLines(requested));
+    } else if (mode === 'restore' && !hasUnsyncedEdits) {
+      requested = null;
+      server = await fetchServerCart();
+    } else {
+      server = await replaceServerCart(toLines(items));
+    }
+    failedAttempts = 0;
+
+    // Ignore the response if the user changed underneath it.
+    if (useSessionStore.getState().session?.user.id === userId) {
+      if (revision === localRevision) {
+        applyingServerCart = true;
+        try {
+          useCartStore
+            .getState()
+            .applyServerCart(
+              { ...toItemsMap(server), ...localOnly },
+              requested ? describeAdjustments(requested, server) : []
+            );
+        } finally {
+          applyingServerCart = false;
+        }
+      } else if (mode !== 'push') {
+        // Edited mid-merge or mid-restore: run it again so server-only lines
+        // aren't pushed away.
+        queuedMode = strongerMode(queuedMode, mode);
+      }
+      // Otherwise the push queued by the edit carries it.
+    }
+  } catch (error) {
+    if (isRetryable(error)) {
+      failedAttempts += 1;
+      queuedMode = strongerMode(queuedMode, mode);
+    } else if (__DEV__) {
+      console.warn('[cart] sync rejected', error);
+    }
+  } finally {
+    inFlight = false;
+  }
+
+  if (queuedMode) {
+    const delay = failedAttempts
+      ? Math.min(RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1), RETRY_MAX_DELAY_MS)
+      : 0;
+    schedule(queuedMode, delay);
+  }
+};
+
+// Merges the device cart into the account cart when a user signs in, restores
+// the account's cart on relaunch, then keeps the server in step with local
+// edits. Returns a function that stops syncing.
+export const startCartSync = () => {
+  const unsubscribeSession = useSessionStore.subscribe((state, prev) => {
+    if (state.status === 'authenticated' && prev.status !== 'authenticated') {
+      failedAttempts = 0;
+      // Reading a stored session back is a relaunch, not a sign-in.
+      schedule(prev.status === 'anonymous' ? 'merge' : 'restore', 0);
+    }
+  });
+
+  const unsubscribeCart = useCartStore.subscribe((state, prev) => {
+    if (state.hasHydrated && !prev.hasHydrated) {
+      schedule('restore', 0);
+    } else if (state.items !== prev.items && !applyingServerCart) {
+      localRevision += 1;
+      schedule('push', PUSH_DEBOUNCE_MS);
+    }
+  });
+
+  // Coming back online usually coincides with coming back to the app.
+  const appStateSubscription = AppState.addEventListener('change', (status) => {
+    if (status === 'active' && queuedMode) schedule(queuedMode, 0);
+  });
+
+  schedule('restore', 0);
+
+  return () => {
+    unsubscribeSession();
+    unsubscribeCart();
+    appStateSubscription.remove();
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
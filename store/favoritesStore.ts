@@ -1,41 +1,201 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
-import { Product } from '../utils/products';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { CatalogProduct, toCatalogProduct } from '../utils/products';
+import { RemoteWishlist, WishlistChange } from '../services/wishlist';
 
-type FavoriteItemsMap = Record<string, Product>;
+type FavoriteItemsMap = Record<string, CatalogProduct>;
+
+// Toggles not yet acknowledged by the server, keyed by product. A pending
+// change with `favorite: false` is the local tombstone for a removal.
+type PendingChangesMap = Record<string, Omit<WishlistChange, 'productKey'>>;
 
 type FavoritesState = {
   items: FavoriteItemsMap;
-  toggleItem: (key: string, product: Product) => void;
+  pending: PendingChangesMap;
+  hasHydrated: boolean;
+  toggleItem: (key: string, product: CatalogProduct) => void;
   removeItem: (key: string) => void;
+  // User-initiated: every favourite is removed, and the removals sync.
   clear: () => void;
+  // Local wipe on sign-out; nothing is sent to the server.
+  reset: () => void;
+  applyRemote: (remote: RemoteWishlist, pushed: PendingChangesMap) => void;
 };
 
-export const useFavoritesStore = create<FavoritesState>((set) => ({
-  items: {},
-  toggleItem: (key, product) =>
-    set((state) => {
-      if (state.items[key]) {
-        const { [key]: _removed, ...rest } = state.items;
-        return { items: rest };
-      }
-
-      return {
-        items: {
-          ...state.items,
-          [key]: product,
-        },
-      };
-    }),
-  removeItem: (key) =>
-    set((state) => {
-      if (!state.items[key]) {
-        return state;
-      }
-      const { [key]: _removed, ...rest } = state.items;
-      return { items: rest };
+// Favourites saved under list-index or Date.now() keys move onto their stable product key.
+export const rekeyFavoriteItems = (items: Record<string, unknown>): FavoriteItemsMap => {
+  const next: FavoriteItemsMap = {};
+  for (const value of Object.values(items)) {
+    const product = toCatalogProduct(value);
+    if (product) {
+      next[product.key] = product;
+    }
+  }
+  return next;
+};
+
+// Last write wins per product. Local changes newer than the server's record
+// stay pending for the next push; everything else takes the server's word.
+const mergeRemoteWishlist = (
+  items: FavoriteItemsMap,
+  pending: PendingChangesMap,
+  remote: RemoteWishlist,
+  pushed: PendingChangesMap
+): { items: FavoriteItemsMap; pending: PendingChangesMap } => {
+  const nextPending: PendingChangesMap = {};
+  for (const [key, change] of Object.entries(pending)) {
+    // Acknowledged unless it was toggled again while the request was in flight.
+    if (pushed[key]?.updatedAt !== change.updatedAt) {
+      nextPending[key] = change;
+    }
+  }
+
+  const remoteState = new Map<string, { product: CatalogProduct | null; updatedAt: number }>();
+  for (const { productKey, updatedAt } of remote.removed) {
+    remoteState.set(productKey, { product: null, updatedAt });
+  }
+  for (const { product, updatedAt } of remote.items) {
+    const existing = remoteState.get(product.key);
+    if (!existing || existing.updatedAt <= updatedAt) {
+      remoteState.set(product.key, { product, updatedAt });
+    }
+  }
+
+  const nextItems: FavoriteItemsMap = {};
+  for (const [key, { product, updatedAt }] of remoteState) {
+    const local = nextPending[key];
+    if (local && local.updatedAt > updatedAt) continue;
+    delete nextPending[key];
+    if (product) {
+      nextItems[key] = product;
+    }
+  }
+
+  // Still-pending local favourites the server hasn't seen yet.
+  for (const [key, change] of Object.entries(nextPending)) {
+    if (change.favorite && items[key]) {
+      nextItems[key] = items[key];
+    }
+  }
+
+  return { items: nextItems, pending: nextPending };
+};
+
+const FAVORITES_STORAGE_KEY = 'aquakart.favorites';
+
+// Bump when the persisted shape changes and add the matching step to FAVORITES_MIGRATIONS.
+const FAVORITES_STORAGE_VERSION = 1;
+
+type PersistedFavorites = { items: FavoriteItemsMap; pending: PendingChangesMap };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readPending = (value: unknown): PendingChangesMap => {
+  const pending: PendingChangesMap = {};
+  if (!isRecord(value)) return pending;
+  for (const [key, change] of Object.entries(value)) {
+    if (
+      isRecord(change) &&
+      typeof change.favorite === 'boolean' &&
+      typeof change.updatedAt === 'number'
+    ) {
+      pending[key] = { favorite: change.favorite, updatedAt: change.updatedAt };
+    }
+  }
+  return pending;
+};
+
+const FAVORITES_MIGRATIONS: Record<number, (state: unknown) => unknown> = {
+  // v0: device-only favourites under legacy keys. They have never been synced,
+  // so queue them as the oldest possible adds and let the account win conflicts.
+  1: (state) => {
+    const items = rekeyFavoriteItems(isRecord(state) && isRecord(state.items) ? state.items : {});
+    const pending: PendingChangesMap = {};
+    for (const key of Object.keys(items)) {
+      pending[key] = { favorite: true, updatedAt: 0 };
+    }
+    return { items, pending };
+  },
+};
+
+const migrateFavorites = (persisted: unknown, fromVersion: number): PersistedFavorites => {
+  let state = persisted;
+  for (let version = fromVersion + 1; version <= FAVORITES_STORAGE_VERSION; version += 1) {
+    state = FAVORITES_MIGRATIONS[version]?.(state) ?? state;
+  }
+  return state as PersistedFavorites;
+};
+
+export const useFavoritesStore = create<FavoritesState>()(
+  persist(
+    (set) => ({
+      items: {},
+      pending: {},
+      hasHydrated: false,
+      toggleItem: (key, product) =>
+        set((state) => {
+          const change = { favorite: !state.items[key], updatedAt: Date.now() };
+          if (state.items[key]) {
+            const { [key]: _removed, ...rest } = state.items;
+            return { items: rest, pending: { ...state.pending, [key]: change } };
+          }
+
+          return {
+            items: {
+              ...state.items,
+              [key]: product,
+            },
+            pending: { ...state.pending, [key]: change },
+          };
+        }),
+      removeItem: (key) =>
+        set((state) => {
+          if (!state.items[key]) {
+            return state;
+          }
+          const { [key]: _removed, ...rest } = state.items;
+          return {
+            items: rest,
+            pending: { ...state.pending, [key]: { favorite: false, updatedAt: Date.now() } },
+          };
+        }),
+      clear: () =>
+        set((state) => {
+          const updatedAt = Date.now();
+          const pending = { ...state.pending };
+          for (const key of Object.keys(state.items)) {
+            pending[key] = { favorite: false, updatedAt };
+          }
+          return { items: {}, pending };
+        }),
+      reset: () => set({ items: {}, pending: {} }),
+      applyRemote: (remote, pushed) =>
+        set((state) => mergeRemoteWishlist(state.items, state.pending, remote, pushed)),
     }),
-  clear: () => set({ items: {} }),
-}));
+    {
+      name: FAVORITES_STORAGE_KEY,
+      version: FAVORITES_STORAGE_VERSION,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state): PersistedFavorites => ({ items: state.items, pending: state.pending }),
+      migrate: migrateFavorites,
+      merge: (persisted, current) => ({
+        ...current,
+        items: isRecord(persisted) && isRecord(persisted.items) ? rekeyFavoriteItems(persisted.items) : {},
+        pending: readPending(isRecord(persisted) ? persisted.pending : undefined),
+      }),
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          AsyncStorage.removeItem(FAVORITES_STORAGE_KEY).catch(() => {});
+        }
+        useFavoritesStore.setState({ hasHydrated: true });
+      },
+    }
+  )
+);
+
+export const selectFavoritesHydrated = (state: FavoritesState) => state.hasHydrated;
 
 export const selectFavoriteCount = (state: FavoritesState) =>
   Object.keys(state.items).length;
@@ -0,0 +1,105 @@
+import axios from 'axios';
+import { AppState } from 'react-native';
+import { syncWishlist } from '../services/wishlist';
+import { useFavoritesStore } from './favoritesStore';
+import { selectIsAuthenticated, useSessionStore } from './sessionStore';
+
+// Coalesces bursts of heart taps into one request.
+const PUSH_DEBOUNCE_MS = 1000;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let inFlight = false;
+let rerunAfterFlight = false;
+let failedAttempts = 0;
+
+// Offline, timeouts, 5xx and 429 are worth retrying; other 4xx will fail the same way again.
+const isRetryable = (error: unknown) => {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  const { status } = error.response;
+  return status >= 500 || status === 429 || status === 408;
+};
+
+const schedule = (delay: number) => {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    void run();
+  }, delay);
+};
+
+const run = async () => {
+  if (
+    !selectIsAuthenticated(useSessionStore.getState()) ||
+    !useFavoritesStore.getState().hasHydrated
+  ) {
+    return;
+  }
+  if (inFlight) {
+    rerunAfterFlight = true;
+    return;
+  }
+
+  inFlight = true;
+  const pushed = useFavoritesStore.getState().pending;
+  const session = useSessionStore.getState().session;
+  try {
+    const remote = await syncWishlist(
+      Object.entries(pushed).map(([productKey, change]) => ({ productKey, ...change }))
+    );
+    // Signed out (or in as someone else) while the request was in flight.
+    if (useSessionStore.getState().session?.user.id !== session?.user.id) return;
+
+    useFavoritesStore.getState().applyRemote(remote, pushed);
+    failedAttempts = 0;
+  } catch (error) {
+    if (isRetryable(error)) {
+      failedAttempts += 1;
+      schedule(Math.min(RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1), RETRY_MAX_DELAY_MS));
+    } else if (__DEV__) {
+      console.warn('[favorites] sync rejected', error);
+    }
+  } finally {
+    inFlight = false;
+  }
+
+  if (rerunAfterFlight) {
+    rerunAfterFlight = false;
+    schedule(0);
+  }
+};
+
+// Pulls and merges the account wishlist whenever a user signs in or the app
+// returns to the foreground, and pushes local toggles as they happen. Returns
+// a function that stops syncing.
+export const startFavoritesSync = () => {
+  const unsubscribeSession = useSessionStore.subscribe((state, prev) => {
+    if (state.status === 'authenticated' && prev.status !== 'authenticated') {
+      failedAttempts = 0;
+      schedule(0);
+    }
+  });
+
+  const unsubscribeFavorites = useFavoritesStore.subscribe((state, prev) => {
+    if (state.hasHydrated && !prev.hasHydrated) {
+      schedule(0);
+    } else if (state.pending !== prev.pending && Object.keys(state.pending).length > 0) {
+      schedule(PUSH_DEBOUNCE_MS);
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (status) => {
+    if (status === 'active') schedule(0);
+  });
+
+  schedule(0);
+
+  return () => {
+    unsubscribeSession();
+    unsubscribeFavorites();
+    appStateSubscription.remove();
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { Address } from '../utils/address';
+
+export type UserDetails = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  altPhone?: string;
+  addresses: Address[];
+};
+
+// Saved addresses belong to the account and are loaded from it; see
+// hooks/useAddresses.ts. Only contact details are kept here.
+export type ContactDetails = Omit<UserDetails, 'addresses'>;
+
+type ProfileState = {
+  user: ContactDetails;
+  updateUser: (user: ContactDetails) => void;
+};
+
+const INITIAL_USER: ContactDetails = {
+  firstName: 'Anika',
+  lastName: 'Sridhar',
+  email: 'anika.s@aquakart.co',
+  phone: '+91 90876 54321',
+  altPhone: '+91 99887 65432',
+};
+
+export const useProfileStore = create<ProfileState>((set) => ({
+  user: INITIAL_USER,
+  updateUser: (user) => set({ user }),
+}));
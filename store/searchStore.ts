@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+const MAX_RECENT_SEARCHES = 8;
+
+type SearchState = {
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  removeRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+};
+
+export const useSearchStore = create<SearchState>()(
+  persist(
+    (set) => ({
+      recentSearches: [],
+      addRecentSearch: (query) =>
+        set((state) => {
+          const trimmed = query.trim();
+          if (!trimmed) {
+            return state;
+          }
+          const rest = state.recentSearches.filter(
+            (entry) => entry.toLowerCase() !== trimmed.toLowerCase()
+          );
+          return { recentSearches: [trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES) };
+        }),
+      removeRecentSearch: (query) =>
+        set((state) => ({
+          recentSearches: state.recentSearches.filter((entry) => entry !== query),
+        })),
+      clearRecentSearches: () => set({ recentSearches: [] }),
+    }),
+    {
+      name: 'aquakart.recent-searches',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ recentSearches: state.recentSearches }),
+    }
+  )
+);
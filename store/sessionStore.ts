@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { configureApiAuth } from '../services/apiClient';
+import { AuthError, AuthSession, logout, refreshSession } from '../services/auth';
+import { queryClient, queryPersister } from '../services/queryClient';
+import {
+  clearStoredSession,
+  loadStoredSession,
+  persistSession,
+} from '../services/session';
+import { useCartStore } from './cartStore';
+import { useFavoritesStore } from './favoritesStore';
+
+type SessionStatus = 'hydrating' | 'authenticated' | 'anonymous';
+
+type SessionState = {
+  status: SessionStatus;
+  session: AuthSession | null;
+  hydrate: () => Promise<void>;
+  signIn: (session: AuthSession) => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+export const useSessionStore = create<SessionState>((set, get) => ({
+  status: 'hydrating',
+  session: null,
+  hydrate: async () => {
+    const session = await loadStoredSession();
+    set({
+      session,
+      status: session ? 'authenticated' : 'anonymous',
+    });
+  },
+  signIn: async (session) => {
+    set({ session, status: 'authenticated' });
+    try {
+      await persistSession(session);
+    } catch {
+      // Keychain unavailable: stay signed in for this launch only
+    }
+  },
+  signOut: async () => {
+    const refreshToken = get().session?.refreshToken;
+    set({ session: null, status: 'anonymous' });
+    useCartStore.getState().clear();
+    useFavoritesStore.getState().reset();
+    // Orders, subscriptions and coupons belong to this account; the next one
+    // to sign in on this device must not see them, even from the persisted copy.
+    queryClient.clear();
+    await Promise.all([
+      clearStoredSession(),
+      queryPersister.removeClient(),
+      logout(refreshToken),
+    ]);
+  },
+}));
+
+configureApiAuth({
+  getAccessToken: () => useSessionStore.getState().session?.accessToken,
+  refreshAccessToken: async () => {
+    const current = useSessionStore.getState().session;
+    if (!current) return null;
+
+    let next: AuthSession;
+    try {
+      next = await refreshSession(current);
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'SESSION_EXPIRED') return null;
+      throw error;
+    }
+    // A sign-out may have landed while the refresh was in flight
+    if (useSessionStore.getState().session !== current) return null;
+
+    await useSessionStore.getState().signIn(next);
+    return next.accessToken;
+  },
+  onSessionExpired: () => {
+    if (useSessionStore.getState().status === 'authenticated') {
+      useSessionStore.getState().signOut();
+    }
+  },
+});
+
+export const selectIsAuthenticated = (state: SessionState) =>
+  state.status === 'authenticated';
+
+export const selectSessionUser = (state: SessionState) =>
+  state.session?.user ?? null;
+
+export const useSession = () => {
+  const status = useSessionStore((state) => state.status);
+  const user = useSessionStore(selectSessionUser);
+  const signIn = useSessionStore((state) => state.signIn);
+  const signOut = useSessionStore((state) => state.signOut);
+
+  return {
+    status,
+    user,
+    isHydrating: status === 'hydrating',
+    isAuthenticated: status === 'authenticated',
+    signIn,
+    signOut,
+  };
+};
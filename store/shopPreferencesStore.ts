@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_SORT, SORT_OPTIONS, SortKey } from '../utils/sort';
+
+type ShopPreferencesState = {
+  sortKey: SortKey;
+  setSortKey: (sortKey: SortKey) => void;
+};
+
+export const useShopPreferencesStore = create<ShopPreferencesState>()(
+  persist(
+    (set) => ({
+      sortKey: DEFAULT_SORT,
+      setSortKey: (sortKey) => set({ sortKey }),
+    }),
+    {
+      name: 'aquakart.shop-preferences',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ sortKey: state.sortKey }),
+      // A sort option removed in a later release falls back to the default.
+      merge: (persisted, current) => {
+        const sortKey = (persisted as Partial<ShopPreferencesState> | undefined)?.sortKey;
+        return SORT_OPTIONS.some((option) => option.key === sortKey)
+          ? { ...current, sortKey: sortKey as SortKey }
+          : current;
+      },
+    }
+  )
+);
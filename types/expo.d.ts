@@ -0,0 +1,3 @@
+// Expo's globals (process.env.EXPO_PUBLIC_*, asset modules). App.tsx used to pull
+// these in through `import 'expo'`; expo-env.d.ts only exists after `expo start`.
+/// <reference types="expo/types" />
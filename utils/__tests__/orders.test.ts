@@ -0,0 +1,70 @@
+import { RETURN_WINDOW_DAYS, getDeliveredAt, getReturnEligibility } from '../orders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const deliveredAt = new Date('2026-03-10T09:30:00Z');
+const deadline = new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * DAY_MS);
+
+describe('getReturnEligibility', () => {
+  it('only offers returns on delivered orders, without mentioning it otherwise', () => {
+    for (const status of ['placed', 'out_for_delivery', 'cancelled'] as const) {
+      expect(getReturnEligibility(status, deliveredAt, false, deliveredAt)).toEqual({
+        allowed: false,
+        reason: null,
+      });
+    }
+  });
+
+  it('stays quiet while a return is already open', () => {
+    expect(getReturnEligibility('delivered', deliveredAt, true, deliveredAt)).toEqual({
+      allowed: false,
+      reason: null,
+    });
+  });
+
+  it('allows a return up to and including the last moment of the window', () => {
+    expect(getReturnEligibility('delivered', deliveredAt, false, deliveredAt)).toEqual({
+      allowed: true,
+      deadline,
+    });
+    expect(getReturnEligibility('delivered', deliveredAt, false, deadline)).toEqual({
+      allowed: true,
+      deadline,
+    });
+  });
+
+  it('explains when the window has closed', () => {
+    const eligibility = getReturnEligibility(
+      'delivered',
+      deliveredAt,
+      false,
+      new Date(deadline.getTime() + 1)
+    );
+    expect(eligibility.allowed).toBe(false);
+    expect(eligibility).toMatchObject({
+      reason: expect.stringMatching(`^The ${RETURN_WINDOW_DAYS}-day return window closed on `),
+    });
+  });
+
+  it('leaves the decision to the server when the delivery date is unknown', () => {
+    expect(getReturnEligibility('delivered', null, false)).toEqual({
+      allowed: true,
+      deadline: null,
+    });
+  });
+});
+
+describe('getDeliveredAt', () => {
+  it('prefers the latest delivered event over the booked slot', () => {
+    const history = [
+      { status: 'delivered' as const, at: '2026-03-08T10:00:00Z' },
+      { status: 'delivered' as const, at: '2026-03-10T09:30:00Z' },
+    ];
+    expect(getDeliveredAt(history, '2026-03-01')).toEqual(deliveredAt);
+  });
+
+  it('falls back to the slot date, and to null when neither is readable', () => {
+    expect(getDeliveredAt([], '2026-03-01')).toEqual(new Date('2026-03-01'));
+    expect(getDeliveredAt([], 'soon')).toBeNull();
+    expect(getDeliveredAt([], null)).toBeNull();
+  });
+});
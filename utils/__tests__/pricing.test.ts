@@ -0,0 +1,202 @@
+import { Coupon, evaluateCoupon, priceCart, toPaise } from '../pricing';
+import { CatalogProduct } from '../products';
+
+const product = (overrides: Partial<CatalogProduct>): CatalogProduct => ({
+  key: overrides.id ?? 'product',
+  id: null,
+  sku: null,
+  title: null,
+  price: null,
+  sellingPrice: null,
+  mrp: null,
+  description: null,
+  images: [],
+  category: null,
+  stock: null,
+  inStock: true,
+  maxPerOrder: null,
+  createdAt: null,
+  ...overrides,
+});
+
+const can = product({ id: 'can', title: '20L Water Can', category: 'Water Cans', price: 120 });
+const filter = product({ id: 'filter', title: 'Sediment Filter', category: 'Filters', price: 350 });
+const bottle = product({ id: 'bottle', title: '1L Bottle', category: 'Bottled Water', price: 250 });
+
+const flat = (amountPaise: number): Coupon => ({
+  code: 'FLAT',
+  description: null,
+  minSubtotalPaise: 0,
+  kind: 'flat',
+  amountPaise,
+});
+
+describe('toPaise', () => {
+  it('rounds rupee amounts to the nearest paisa', () => {
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(toPaise(99.999)).toBe(10000);
+  });
+});
+
+describe('priceCart', () => {
+  it('extracts GST once per line and rounds the total to the rupee', () => {
+    const odd = product({ id: 'odd', category: 'Filters', price: 99.99 });
+    const breakdown = priceCart([{ key: 'odd', product: odd, quantity: 3 }]);
+
+    expect(breakdown.subtotalPaise).toBe(29997);
+    // 29997 * 18 / 118 = 4575.8, not 3 * round(1525.3).
+    expect(breakdown.taxPaise).toBe(4576);
+    expect(breakdown.deliveryFeePaise).toBe(4000);
+    expect(breakdown.roundOffPaise).toBe(3);
+    expect(breakdown.totalPaise).toBe(34000);
+  });
+
+  it('groups tax by rate and leaves it inside the shelf price', () => {
+    const breakdown = priceCart([
+      { key: 'filter', product: filter, quantity: 1 },
+      { key: 'can', product: can, quantity: 2 },
+    ]);
+
+    expect(breakdown.taxes).toEqual([
+      { gstRateBps: 1200, taxablePaise: 21429, taxPaise: 2571 },
+      { gstRateBps: 1800, taxablePaise: 29661, taxPaise: 5339 },
+    ]);
+    expect(breakdown.taxPaise).toBe(7910);
+    expect(breakdown.totalPaise).toBe(59000 + breakdown.depositPaise);
+  });
+
+  it('charges an untaxed deposit on returnable cans only', () => {
+    const dispenser = product({
+      id: 'dispenser',
+      title: 'Dispenser for 20L cans',
+      category: 'Accessories',
+      price: 500,
+    });
+    const breakdown = priceCart([
+      { key: 'can', product: can, quantity: 2 },
+      { key: 'dispenser', product: dispenser, quantity: 1 },
+    ]);
+    const [canLine, dispenserLine] = breakdown.lines;
+
+    expect(canLine.depositPaise).toBe(30000);
+    expect(canLine.totalPaise).toBe(24000 + 30000);
+    expect(dispenserLine.depositPaise).toBe(0);
+    expect(dispenserLine.gstRateBps).toBe(1800);
+    expect(breakdown.depositPaise).toBe(30000);
+    expect(breakdown.taxes.reduce((sum, tax) => sum + tax.taxablePaise + tax.taxPaise, 0)).toBe(
+      74000
+    );
+  });
+
+  it('waives delivery once the discounted subtotal reaches the threshold', () => {
+    const short = priceCart([{ key: 'bottle', product: bottle, quantity: 1 }]);
+    expect(short.deliveryFeePaise).toBe(4000);
+    expect(short.freeDeliveryShortfallPaise).toBe(25000);
+
+    const reached = priceCart([{ key: 'bottle', product: bottle, quantity: 2 }]);
+    expect(reached.deliveryFeePaise).toBe(0);
+    expect(reached.freeDeliveryShortfallPaise).toBe(0);
+
+    const discounted = priceCart([{ key: 'bottle', product: bottle, quantity: 2 }], {
+      coupon: flat(1000),
+    });
+    expect(discounted.deliveryFeePaise).toBe(4000);
+    expect(discounted.freeDeliveryShortfallPaise).toBe(1000);
+  });
+
+  it('splits a coupon across lines by value without losing a paisa', () => {
+    const breakdown = priceCart(
+      [
+        { key: 'can', product: can, quantity: 2 },
+        { key: 'filter', product: filter, quantity: 1 },
+      ],
+      { coupon: flat(10000) }
+    );
+    const [canLine, filterLine] = breakdown.lines;
+
+    expect(canLine.discountPaise).toBe(4068);
+    expect(filterLine.discountPaise).toBe(5932);
+    expect(breakdown.discountPaise).toBe(10000);
+    expect(canLine.taxPaise).toBe(2136);
+    expect(breakdown.coupon?.discountPaise).toBe(10000);
+  });
+
+  it('leaves unpriced lines out of every total', () => {
+    const unpriced = product({ id: 'unpriced', category: 'Filters' });
+    const breakdown = priceCart([
+      { key: 'unpriced', product: unpriced, quantity: 4 },
+      { key: 'bottle', product: bottle, quantity: 2 },
+    ]);
+
+    expect(breakdown.unpricedCount).toBe(1);
+    expect(breakdown.itemCount).toBe(6);
+    expect(breakdown.subtotalPaise).toBe(50000);
+  });
+});
+
+describe('evaluateCoupon', () => {
+  const lines = [
+    { key: 'can', unitPricePaise: 12000, quantity: 2, subtotalPaise: 24000 },
+    { key: 'filter', unitPricePaise: 35000, quantity: 1, subtotalPaise: 35000 },
+  ];
+  const base = { code: 'SAVE', description: null, minSubtotalPaise: 0 };
+
+  it('explains how much more is needed below the minimum subtotal', () => {
+    const effect = evaluateCoupon(
+      { ...flat(1000), code: 'BIG', minSubtotalPaise: 60000 },
+      lines,
+      59000
+    );
+    expect(effect).toEqual({
+      lineDiscounts: [0, 0],
+      waivesDelivery: false,
+      issue: 'Add ₹10.00 more to use BIG.',
+    });
+  });
+
+  it('applies a percentage across lines, up to its cap', () => {
+    const percentage = (maxDiscountPaise: number | null): Coupon => ({
+      ...base,
+      kind: 'percentage',
+      percentBps: 1000,
+      maxDiscountPaise,
+    });
+
+    expect(evaluateCoupon(percentage(null), lines, 59000).lineDiscounts).toEqual([2400, 3500]);
+    expect(evaluateCoupon(percentage(2000), lines, 59000).lineDiscounts).toEqual([814, 1186]);
+  });
+
+  it('never takes more than the subtotal off with a flat coupon', () => {
+    expect(evaluateCoupon(flat(100000), lines, 59000).lineDiscounts).toEqual([24000, 35000]);
+  });
+
+  it('waives delivery without discounting any line', () => {
+    const effect = evaluateCoupon({ ...base, kind: 'free_delivery' }, lines, 59000);
+    expect(effect).toEqual({ lineDiscounts: [0, 0], waivesDelivery: true, issue: null });
+  });
+
+  it('makes every complete buy-x-get-y group partly free on eligible lines', () => {
+    const bxgy = (productKeys: string[] | null): Coupon => ({
+      ...base,
+      kind: 'buy_x_get_y',
+      buyQuantity: 2,
+      freeQuantity: 1,
+      productKeys,
+    });
+    const cans = [
+      { key: 'can', unitPricePaise: 12000, quantity: 7, subtotalPaise: 84000 },
+      { key: 'unpriced', unitPricePaise: null, quantity: 6, subtotalPaise: 0 },
+    ];
+
+    expect(evaluateCoupon(bxgy(null), cans, 84000)).toEqual({
+      lineDiscounts: [24000, 0],
+      waivesDelivery: false,
+      issue: null,
+    });
+    expect(evaluateCoupon(bxgy(['filter']), cans, 84000)).toEqual({
+      lineDiscounts: [0, 0],
+      waivesDelivery: false,
+      issue: 'Add 3 of an eligible product to use SAVE.',
+    });
+  });
+});
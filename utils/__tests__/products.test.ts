@@ -0,0 +1,37 @@
+import { deriveProductKey, parseCatalogProducts, toCatalogProduct } from '../products';
+
+const idLessCan = { name: '20L Mineral Water Can', price: 120, mrp: 150 };
+
+describe('deriveProductKey', () => {
+  it('prefers the backend id, then the sku', () => {
+    const base = { title: 'Can', price: 120, mrp: null };
+    expect(deriveProductKey({ ...base, id: 'p-1', sku: 'CAN-20' })).toBe('p-1');
+    expect(deriveProductKey({ ...base, id: null, sku: 'CAN-20' })).toBe('CAN-20');
+  });
+
+  it('keys an id-less product the same way on every parse', () => {
+    const first = parseCatalogProducts([idLessCan]).products[0];
+    const second = parseCatalogProducts({ data: [{ ...idLessCan }] }).products[0];
+    const restored = toCatalogProduct(JSON.parse(JSON.stringify(first)));
+
+    expect(first.key).toMatch(/^product-/);
+    expect(second.key).toBe(first.key);
+    expect(restored?.key).toBe(first.key);
+  });
+
+  it('ignores formatting differences in the fields it fingerprints', () => {
+    const plain = toCatalogProduct(idLessCan);
+    const noisy = toCatalogProduct({
+      name: '  20L Mineral Water Can ',
+      price: '120.00',
+      mrp: '150',
+    });
+    expect(noisy?.key).toBe(plain?.key);
+  });
+
+  it('gives different id-less products different keys', () => {
+    const can = toCatalogProduct(idLessCan);
+    const bottle = toCatalogProduct({ name: '1L Bottle', price: 20, mrp: 25 });
+    expect(bottle?.key).not.toBe(can?.key);
+  });
+});
@@ -0,0 +1,59 @@
+import { SubscriptionFrequency, getUpcomingDeliveries } from '../subscriptions';
+
+// A Tuesday, late in the evening: only the calendar day should matter.
+const from = new Date(2026, 2, 10, 23, 45);
+
+describe('getUpcomingDeliveries', () => {
+  it('starts from today for a schedule that is already running', () => {
+    expect(getUpcomingDeliveries({ kind: 'daily' }, '2026-03-01', { from })).toEqual([
+      '2026-03-10',
+      '2026-03-11',
+      '2026-03-12',
+    ]);
+  });
+
+  it('waits for a start date in the future', () => {
+    expect(getUpcomingDeliveries({ kind: 'daily' }, '2026-03-20', { from, count: 2 })).toEqual([
+      '2026-03-20',
+      '2026-03-21',
+    ]);
+  });
+
+  it('counts alternate days from the start date, not from today', () => {
+    expect(getUpcomingDeliveries({ kind: 'alternate_days' }, '2026-03-01', { from })).toEqual([
+      '2026-03-11',
+      '2026-03-13',
+      '2026-03-15',
+    ]);
+  });
+
+  it("repeats weekly on the start date's weekday", () => {
+    expect(getUpcomingDeliveries({ kind: 'weekly' }, '2026-03-05', { from })).toEqual([
+      '2026-03-12',
+      '2026-03-19',
+      '2026-03-26',
+    ]);
+  });
+
+  it('delivers only on the picked weekdays of a custom schedule', () => {
+    const custom: SubscriptionFrequency = { kind: 'custom', weekdays: [5, 1] };
+    expect(getUpcomingDeliveries(custom, '2026-03-01', { from })).toEqual([
+      '2026-03-13',
+      '2026-03-16',
+      '2026-03-20',
+    ]);
+  });
+
+  it('leaves out skipped dates and fills in the next ones', () => {
+    expect(
+      getUpcomingDeliveries({ kind: 'daily' }, '2026-03-01', { from, skipped: ['2026-03-11'] })
+    ).toEqual(['2026-03-10', '2026-03-12', '2026-03-13']);
+  });
+
+  it('returns nothing for a custom schedule without days or an unreadable start date', () => {
+    expect(getUpcomingDeliveries({ kind: 'custom', weekdays: [] }, '2026-03-01', { from })).toEqual(
+      []
+    );
+    expect(getUpcomingDeliveries({ kind: 'daily' }, 'next week', { from })).toEqual([]);
+  });
+});
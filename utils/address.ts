@@ -0,0 +1,18 @@
+export type Address = {
+  id: string;
+  label: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  isDefault: boolean;
+};
+
+export const getDefaultAddress = (addresses: Address[]): Address | null =>
+  addresses.find((address) => address.isDefault) ?? addresses[0] ?? null;
+
+export const formatAddressLines = (address: Address): string[] =>
+  [address.line1, address.line2, `${address.city}, ${address.state} ${address.postalCode}`].filter(
+    (line): line is string => Boolean(line)
+  );
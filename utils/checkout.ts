@@ -0,0 +1,90 @@
+import { PricingLineInput } from './pricing';
+
+export type CheckoutLine = PricingLineInput;
+
+export type DeliverySlot = {
+  id: string;
+  // Local calendar date, YYYY-MM-DD.
+  date: string;
+  dayLabel: string;
+  window: string;
+};
+
+export type PaymentMethod = 'upi' | 'card' | 'netbanking' | 'cod';
+
+export type PaymentMethodOption = {
+  key: PaymentMethod;
+  label: string;
+  description: string;
+};
+
+export const PAYMENT_METHODS: PaymentMethodOption[] = [
+  { key: 'upi', label: 'UPI', description: 'Google Pay, PhonePe, Paytm or any UPI app' },
+  { key: 'card', label: 'Credit / debit card', description: 'Visa, Mastercard, RuPay' },
+  { key: 'netbanking', label: 'Net banking', description: 'All major Indian banks' },
+  { key: 'cod', label: 'Cash on delivery', description: 'Pay when your order arrives' },
+];
+
+const DELIVERY_WINDOWS = [
+  { id: 'morning', label: '7 AM – 10 AM', startHour: 7 },
+  { id: 'midday', label: '10 AM – 1 PM', startHour: 10 },
+  { id: 'evening', label: '4 PM – 7 PM', startHour: 16 },
+];
+
+const SLOT_DAYS = 3;
+// A slot needs this much notice to be packed and dispatched.
+const SLOT_CUTOFF_HOURS = 2;
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getDeliverySlots = (now = new Date()): DeliverySlot[] => {
+  const slots: DeliverySlot[] = [];
+  for (let offset = 0; offset < SLOT_DAYS; offset += 1) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const dayLabel =
+      offset === 0
+        ? 'Today'
+        : offset === 1
+          ? 'Tomorrow'
+          : day.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+    for (const window of DELIVERY_WINDOWS) {
+      const start = new Date(day);
+      start.setHours(window.startHour);
+      if (start.getTime() - now.getTime() < SLOT_CUTOFF_HOURS * 60 * 60 * 1000) continue;
+      const date = toDateKey(day);
+      slots.push({ id: `${date}:${window.id}`, date, dayLabel, window: window.label });
+    }
+  }
+  return slots;
+};
+
+// Unique enough to tell one checkout attempt from another for the same user.
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export type OrderSignatureInput = {
+  lines: CheckoutLine[];
+  couponCode: string | null;
+  addressId: string | null;
+  slotId: string | null;
+  paymentMethod: PaymentMethod | null;
+};
+
+// Describes what is being ordered by content, so the idempotency key survives
+// re-renders and repricing that rebuild the same lines.
+export const getOrderSignature = ({
+  lines,
+  couponCode,
+  addressId,
+  slotId,
+  paymentMethod,
+}: OrderSignatureInput): string =>
+  JSON.stringify([
+    lines.map((line) => `${line.key}:${line.quantity}`).sort(),
+    couponCode,
+    addressId,
+    slotId,
+    paymentMethod,
+  ]);
@@ -0,0 +1,110 @@
+import { CatalogProduct, getProductPrice } from './products';
+
+export type PriceRange = [number, number];
+
+export type ProductFilters = {
+  categories: string[];
+  priceRange: PriceRange | null;
+  inStockOnly: boolean;
+};
+
+export type CategoryOption = {
+  name: string;
+  count: number;
+};
+
+export type FilterPill = {
+  id: string;
+  label: string;
+  // Returns the filters with just this pill removed.
+  remove: (filters: ProductFilters) => ProductFilters;
+};
+
+export const EMPTY_FILTERS: ProductFilters = {
+  categories: [],
+  priceRange: null,
+  inStockOnly: false,
+};
+
+export const PRICE_STEP = 10;
+
+export const hasActiveFilters = (filters: ProductFilters) =>
+  filters.categories.length > 0 || filters.priceRange !== null || filters.inStockOnly;
+
+export const getCategoryOptions = (products: CatalogProduct[]): CategoryOption[] => {
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    if (product.category) {
+      counts.set(product.category, (counts.get(product.category) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+};
+
+// Snapped outward to PRICE_STEP so the slider ends land on round numbers.
+export const getPriceBounds = (products: CatalogProduct[]): PriceRange | null => {
+  const prices = products
+    .map(getProductPrice)
+    .filter((price): price is number => price !== null);
+  if (prices.length === 0) {
+    return null;
+  }
+  const min = Math.floor(Math.min(...prices) / PRICE_STEP) * PRICE_STEP;
+  const max = Math.ceil(Math.max(...prices) / PRICE_STEP) * PRICE_STEP;
+  return [min, Math.max(max, min + PRICE_STEP)];
+};
+
+export const matchesFilters = (product: CatalogProduct, filters: ProductFilters) => {
+  if (filters.inStockOnly && !product.inStock) {
+    return false;
+  }
+
+  if (
+    filters.categories.length > 0 &&
+    (!product.category || !filters.categories.includes(product.category))
+  ) {
+    return false;
+  }
+
+  if (filters.priceRange) {
+    const price = getProductPrice(product);
+    const [min, max] = filters.priceRange;
+    if (price === null || price < min || price > max) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+export const getFilterPills = (filters: ProductFilters): FilterPill[] => {
+  const pills: FilterPill[] = filters.categories.map((category) => ({
+    id: `category:${category}`,
+    label: category,
+    remove: (current) => ({
+      ...current,
+      categories: current.categories.filter((entry) => entry !== category),
+    }),
+  }));
+
+  if (filters.priceRange) {
+    const [min, max] = filters.priceRange;
+    pills.push({
+      id: 'price',
+      label: `₹${min} – ₹${max}`,
+      remove: (current) => ({ ...current, priceRange: null }),
+    });
+  }
+
+  if (filters.inStockOnly) {
+    pills.push({
+      id: 'in-stock',
+      label: 'In stock',
+      remove: (current) => ({ ...current, inStockOnly: false }),
+    });
+  }
+
+  return pills;
+};
@@ -0,0 +1,276 @@
+export type OrderStatus =
+  | 'placed'
+  | 'confirmed'
+  | 'processing'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'cancelled'
+  | 'returned'
+  | 'refunded';
+
+export type OrderStatusTone = 'pending' | 'active' | 'success' | 'danger' | 'neutral';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: 'Placed',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+  refunded: 'Refunded',
+};
+
+export const ORDER_STATUS_TONES: Record<OrderStatus, OrderStatusTone> = {
+  placed: 'pending',
+  confirmed: 'pending',
+  processing: 'pending',
+  out_for_delivery: 'active',
+  delivered: 'success',
+  cancelled: 'danger',
+  returned: 'neutral',
+  refunded: 'neutral',
+};
+
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  pending: 'placed',
+  created: 'placed',
+  accepted: 'confirmed',
+  packed: 'processing',
+  shipped: 'out_for_delivery',
+  dispatched: 'out_for_delivery',
+  in_transit: 'out_for_delivery',
+  completed: 'delivered',
+  canceled: 'cancelled',
+};
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+// The backend has sent "Delivered", "OUT_FOR_DELIVERY" and "out-for-delivery".
+// Anything unrecognised is treated as still in progress.
+export const normalizeOrderStatus = (value: string | null | undefined): OrderStatus => {
+  const normalized = (value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((ORDER_STATUSES as string[]).includes(normalized)) {
+    return normalized as OrderStatus;
+  }
+  return STATUS_ALIASES[normalized] ?? 'processing';
+};
+
+export const formatOrderDate = (iso: string | null): string => {
+  if (!iso) return 'Date unavailable';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export const formatOrderTimestamp = (iso: string | null): string | null => {
+  if (!iso) return null;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export type OrderStatusEvent = {
+  status: OrderStatus;
+  // ISO timestamp of when the order entered this status.
+  at: string | null;
+};
+
+export type TimelineStepState = 'done' | 'current' | 'upcoming';
+
+export type TimelineStep = {
+  status: OrderStatus;
+  label: string;
+  state: TimelineStepState;
+  at: string | null;
+};
+
+// The happy path every order walks; "processing" is shown as packing.
+const TIMELINE_STATUSES: OrderStatus[] = [
+  'placed',
+  'confirmed',
+  'processing',
+  'out_for_delivery',
+  'delivered',
+];
+
+const TIMELINE_LABELS: Partial<Record<OrderStatus, string>> = {
+  processing: 'Packed',
+};
+
+// Builds the status timeline for an order. Cancelled, returned and refunded
+// orders end with that status after the last step they actually reached.
+export const buildOrderTimeline = (
+  status: OrderStatus,
+  history: OrderStatusEvent[],
+  placedAt: string | null
+): TimelineStep[] => {
+  // The latest entry wins if the server reports a status more than once.
+  const reachedAt = new Map<OrderStatus, string | null>([['placed', placedAt]]);
+  for (const event of history) {
+    reachedAt.set(event.status, event.at ?? reachedAt.get(event.status) ?? null);
+  }
+
+  const currentIndex = TIMELINE_STATUSES.indexOf(status);
+  const isTerminal = currentIndex === -1;
+  const lastReachedIndex = isTerminal
+    ? Math.max(0, ...TIMELINE_STATUSES.map((step, index) => (reachedAt.has(step) ? index : 0)))
+    : currentIndex;
+
+  const steps: TimelineStep[] = [];
+  TIMELINE_STATUSES.forEach((step, index) => {
+    // A stopped order doesn't pretend it will still be delivered.
+    if (isTerminal && index > lastReachedIndex) return;
+    steps.push({
+      status: step,
+      label: TIMELINE_LABELS[step] ?? ORDER_STATUS_LABELS[step],
+      state:
+        index < lastReachedIndex || isTerminal
+          ? 'done'
+          : index === lastReachedIndex
+            ? 'current'
+            : 'upcoming',
+      at: index <= lastReachedIndex ? (reachedAt.get(step) ?? null) : null,
+    });
+  });
+
+  if (isTerminal) {
+    steps.push({
+      status,
+      label: ORDER_STATUS_LABELS[status],
+      state: 'current',
+      at: reachedAt.get(status) ?? null,
+    });
+  }
+  // Delivered is where the order ends, not a step still in progress.
+  if (status === 'delivered') {
+    steps[steps.length - 1].state = 'done';
+  }
+  return steps;
+};
+
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Refund pending',
+  processing: 'Refund in progress',
+  completed: 'Refunded',
+  failed: 'Refund failed',
+};
+
+const REFUND_STATUS_ALIASES: Record<string, RefundStatus> = {
+  initiated: 'processing',
+  in_progress: 'processing',
+  refunded: 'completed',
+  success: 'completed',
+  succeeded: 'completed',
+};
+
+export const normalizeRefundStatus = (value: string): RefundStatus => {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized in REFUND_STATUS_LABELS) return normalized as RefundStatus;
+  return REFUND_STATUS_ALIASES[normalized] ?? 'pending';
+};
+
+export type ReturnStatus = 'requested' | 'approved' | 'picked_up' | 'rejected';
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Return approved',
+  picked_up: 'Return picked up',
+  rejected: 'Return declined',
+};
+
+export type OrderRequestReason = {
+  key: string;
+  label: string;
+};
+
+// "other" asks for a note, since the reason alone tells support nothing.
+export const OTHER_REASON_KEY = 'other';
+
+export const CANCEL_REASONS: OrderRequestReason[] = [
+  { key: 'ordered_by_mistake', label: 'Ordered by mistake' },
+  { key: 'slot_unsuitable', label: "The delivery slot doesn't suit me" },
+  { key: 'change_items', label: 'I want to change the items' },
+  { key: 'better_price', label: 'Found a better price elsewhere' },
+  { key: OTHER_REASON_KEY, label: 'Something else' },
+];
+
+export const RETURN_REASONS: OrderRequestReason[] = [
+  { key: 'damaged', label: 'Arrived damaged' },
+  { key: 'defective', label: 'Leaking or not working' },
+  { key: 'wrong_item', label: 'Wrong item delivered' },
+  { key: 'missing_parts', label: 'Parts or accessories missing' },
+  { key: OTHER_REASON_KEY, label: 'Something else' },
+];
+
+// Photos are what support needs to approve a damage claim without a visit.
+export const PHOTO_REASON_KEYS = new Set(['damaged', 'defective', 'missing_parts']);
+export const MAX_RETURN_PHOTOS = 3;
+
+export const RETURN_WINDOW_DAYS = 7;
+
+// reason is null when the action doesn't apply at all and shouldn't be mentioned.
+export type RequestEligibility =
+  | { allowed: true; deadline: Date | null }
+  | { allowed: false; reason: string | null };
+
+// Orders can be cancelled until they leave the warehouse.
+export const getCancelEligibility = (status: OrderStatus): RequestEligibility => {
+  switch (status) {
+    case 'placed':
+    case 'confirmed':
+    case 'processing':
+      return { allowed: true, deadline: null };
+    case 'out_for_delivery':
+      return {
+        allowed: false,
+        reason:
+          "This order is already on its way, so it can't be cancelled. You can return it once it's delivered.",
+      };
+    default:
+      return { allowed: false, reason: null };
+  }
+};
+
+// When the order was delivered: the recorded event, else the booked slot's date.
+export const getDeliveredAt = (
+  history: OrderStatusEvent[],
+  slotDate: string | null
+): Date | null => {
+  const event = [...history].reverse().find((entry) => entry.status === 'delivered');
+  const source = event?.at ?? slotDate;
+  if (!source) return null;
+  const date = new Date(source);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Delivered orders can be returned for RETURN_WINDOW_DAYS. Without a known
+// delivery date the request is allowed and the server has the final say.
+export const getReturnEligibility = (
+  status: OrderStatus,
+  deliveredAt: Date | null,
+  hasOpenReturn: boolean,
+  now = new Date()
+): RequestEligibility => {
+  if (status !== 'delivered' || hasOpenReturn) {
+    return { allowed: false, reason: null };
+  }
+  if (!deliveredAt) {
+    return { allowed: true, deadline: null };
+  }
+  const deadline = new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  if (now.getTime() > deadline.getTime()) {
+    return {
+      allowed: false,
+      reason: `The ${RETURN_WINDOW_DAYS}-day return window closed on ${formatOrderDate(deadline.toISOString())}.`,
+    };
+  }
+  return { allowed: true, deadline };
+};
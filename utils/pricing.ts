@@ -0,0 +1,353 @@
+import { CatalogProduct, getProductPrice } from './products';
+
+// All amounts here are integer paise; rupees only appear at the edges, via
+// toPaise on the way in and formatPaise on the way out. Shelf prices already
+// include GST, so tax is extracted from them rather than added on top.
+
+export type PricingLineInput = {
+  key: string;
+  product: CatalogProduct;
+  quantity: number;
+};
+
+export type TaxRule = {
+  label: string;
+  // Catalog category names the rule covers, compared case-insensitively against the whole
+  // category. Titles are free text ("Dispenser for 20L cans") and are never consulted.
+  categories: string[];
+  gstRateBps: number;
+  // Refundable deposit per unit, e.g. for returnable cans. Not taxed.
+  depositPaise?: number;
+};
+
+export type PricingConfig = {
+  taxRules: TaxRule[];
+  defaultGstRateBps: number;
+  deliveryFeePaise: number;
+  // Orders whose subtotal reaches this ship free.
+  freeDeliveryThresholdPaise: number;
+  // Invoices are settled in whole rupees, with the difference shown as a round-off line.
+  roundTotalToRupee: boolean;
+};
+
+type CouponBase = {
+  code: string;
+  description: string | null;
+  // The cart subtotal needed before the coupon applies; 0 for none.
+  minSubtotalPaise: number;
+};
+
+export type Coupon = CouponBase &
+  (
+    | { kind: 'percentage'; percentBps: number; maxDiscountPaise: number | null }
+    | { kind: 'flat'; amountPaise: number }
+    | { kind: 'free_delivery' }
+    // Every buyQuantity + freeQuantity units of an eligible product, freeQuantity are free.
+    | { kind: 'buy_x_get_y'; buyQuantity: number; freeQuantity: number; productKeys: string[] | null }
+  );
+
+export type AppliedCoupon = {
+  code: string;
+  label: string;
+  discountPaise: number;
+  waivesDelivery: boolean;
+};
+
+export type PricingOptions = {
+  coupon?: Coupon | null;
+  config?: PricingConfig;
+};
+
+export type PricedLine = PricingLineInput & {
+  // null when the product has no listed price; such lines are left out of every total.
+  unitPricePaise: number | null;
+  subtotalPaise: number;
+  // Coupon discount allocated to this line; the GST contained in what is left is taxPaise.
+  discountPaise: number;
+  gstRateBps: number;
+  // Included in subtotalPaise - discountPaise, not charged on top of it.
+  taxPaise: number;
+  depositPaise: number;
+  totalPaise: number;
+};
+
+export type TaxBreakdown = {
+  gstRateBps: number;
+  // The pre-tax value of the lines at this rate.
+  taxablePaise: number;
+  taxPaise: number;
+};
+
+export type PriceBreakdown = {
+  lines: PricedLine[];
+  itemCount: number;
+  subtotalPaise: number;
+  discountPaise: number;
+  // GST already contained in subtotalPaise - discountPaise; informational only.
+  taxPaise: number;
+  // One entry per GST rate present in the cart, lowest rate first.
+  taxes: TaxBreakdown[];
+  depositPaise: number;
+  deliveryFeePaise: number;
+  // How much more to add for free delivery; 0 once it applies.
+  freeDeliveryShortfallPaise: number;
+  roundOffPaise: number;
+  totalPaise: number;
+  unpricedCount: number;
+  // Set while the coupon is in effect.
+  coupon: AppliedCoupon | null;
+  // Why the attached coupon currently gives nothing, e.g. the subtotal dropped below its minimum.
+  couponIssue: string | null;
+};
+
+export const PRICING_CONFIG: PricingConfig = {
+  taxRules: [
+    {
+      label: 'Returnable water can',
+      categories: ['water cans', 'cans', 'jars', 'water jars'],
+      gstRateBps: 1200,
+      depositPaise: 15000,
+    },
+    {
+      label: 'Packaged drinking water',
+      categories: ['packaged drinking water', 'bottled water', 'mineral water'],
+      gstRateBps: 1800,
+    },
+    {
+      label: 'Purifiers and filters',
+      categories: ['purifiers', 'water purifiers', 'filters', 'cartridges'],
+      gstRateBps: 1800,
+    },
+  ],
+  defaultGstRateBps: 1800,
+  deliveryFeePaise: 4000,
+  freeDeliveryThresholdPaise: 50000,
+  roundTotalToRupee: true,
+};
+
+export const toPaise = (rupees: number): number => Math.round(rupees * 100);
+
+export const formatPaise = (paise: number): string =>
+  `${paise < 0 ? '-' : ''}₹${(Math.abs(paise) / 100).toFixed(2)}`;
+
+export const formatGstRate = (bps: number): string => `${bps / 100}%`;
+
+export const describeCoupon = (coupon: Coupon): string => {
+  switch (coupon.kind) {
+    case 'percentage':
+      return `${coupon.percentBps / 100}% off`;
+    case 'flat':
+      return `${formatPaise(coupon.amountPaise)} off`;
+    case 'free_delivery':
+      return 'Free delivery';
+    case 'buy_x_get_y':
+      return `Buy ${coupon.buyQuantity} get ${coupon.freeQuantity} free`;
+  }
+};
+
+// Basis-point share of an amount, rounded half up to the nearest paisa.
+const applyRate = (paise: number, bps: number) => Math.round((paise * bps) / 10000);
+
+// The GST contained in a tax-inclusive amount, rounded half up to the nearest paisa.
+const extractTax = (inclusivePaise: number, bps: number) =>
+  Math.round((inclusivePaise * bps) / (10000 + bps));
+
+const normalizeCategory = (category: string) => category.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Products without a recognised category fall back to the default rate and carry no deposit.
+const findTaxRule = (product: CatalogProduct, config: PricingConfig): TaxRule | null => {
+  if (!product.category) return null;
+  const category = normalizeCategory(product.category);
+  return (
+    config.taxRules.find((rule) =>
+      rule.categories.some((entry) => normalizeCategory(entry) === category)
+    ) ?? null
+  );
+};
+
+// Splits a discount across lines in proportion to their value. Paise lost to
+// flooring go to the first lines, so the parts always add back up to the whole.
+const allocate = (totalPaise: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum === 0) return weights.map(() => 0);
+  const shares = weights.map((weight) => Math.floor((totalPaise * weight) / weightSum));
+  let remainder = totalPaise - shares.reduce((sum, share) => sum + share, 0);
+  for (let index = 0; remainder > 0 && index < shares.length; index += 1) {
+    if (weights[index] > 0) {
+      shares[index] += 1;
+      remainder -= 1;
+    }
+  }
+  return shares;
+};
+
+export type CouponEffect = {
+  lineDiscounts: number[];
+  waivesDelivery: boolean;
+  issue: string | null;
+};
+
+const NO_COUPON_EFFECT = (lineCount: number): CouponEffect => ({
+  lineDiscounts: new Array(lineCount).fill(0),
+  waivesDelivery: false,
+  issue: null,
+});
+
+// Local mirror of the server's coupon rules, so the discount tracks cart edits
+// immediately instead of waiting for re-validation.
+export const evaluateCoupon = (
+  coupon: Coupon,
+  lines: { unitPricePaise: number | null; subtotalPaise: number; key: string; quantity: number }[],
+  subtotalPaise: number
+): CouponEffect => {
+  const none = NO_COUPON_EFFECT(lines.length);
+  if (subtotalPaise < coupon.minSubtotalPaise) {
+    return {
+      ...none,
+      issue: `Add ${formatPaise(coupon.minSubtotalPaise - subtotalPaise)} more to use ${coupon.code}.`,
+    };
+  }
+
+  const weights = lines.map((line) => line.subtotalPaise);
+  switch (coupon.kind) {
+    case 'percentage': {
+      const uncapped = applyRate(subtotalPaise, coupon.percentBps);
+      const discount =
+        coupon.maxDiscountPaise === null ? uncapped : Math.min(uncapped, coupon.maxDiscountPaise);
+      return { ...none, lineDiscounts: allocate(discount, weights) };
+    }
+    case 'flat':
+      return { ...none, lineDiscounts: allocate(Math.min(coupon.amountPaise, subtotalPaise), weights) };
+    case 'free_delivery':
+      return { ...none, waivesDelivery: true };
+    case 'buy_x_get_y': {
+      const groupSize = coupon.buyQuantity + coupon.freeQuantity;
+      const lineDiscounts = lines.map((line) => {
+        if (line.unitPricePaise === null || groupSize <= 0) return 0;
+        if (coupon.productKeys && !coupon.productKeys.includes(line.key)) return 0;
+        return Math.floor(line.quantity / groupSize) * coupon.freeQuantity * line.unitPricePaise;
+      });
+      const issue = lineDiscounts.some((discount) => discount > 0)
+        ? null
+        : `Add ${groupSize} of an eligible product to use ${coupon.code}.`;
+      return { ...none, lineDiscounts, issue };
+    }
+  }
+};
+
+export const priceCart = (
+  items: PricingLineInput[],
+  { coupon = null, config = PRICING_CONFIG }: PricingOptions = {}
+): PriceBreakdown => {
+  const base = items.map((item) => {
+    const price = getProductPrice(item.product);
+    const rule = findTaxRule(item.product, config);
+    const unitPricePaise = price === null ? null : toPaise(price);
+    return {
+      ...item,
+      rule,
+      unitPricePaise,
+      subtotalPaise: unitPricePaise === null ? 0 : unitPricePaise * item.quantity,
+    };
+  });
+
+  const grossSubtotalPaise = base.reduce((sum, line) => sum + line.subtotalPaise, 0);
+  const effect = coupon
+    ? evaluateCoupon(coupon, base, grossSubtotalPaise)
+    : NO_COUPON_EFFECT(base.length);
+
+  const lines: PricedLine[] = base.map(({ rule, ...line }, index) => {
+    const gstRateBps = rule?.gstRateBps ?? config.defaultGstRateBps;
+    if (line.unitPricePaise === null) {
+      return { ...line, discountPaise: 0, gstRateBps, taxPaise: 0, depositPaise: 0, totalPaise: 0 };
+    }
+    const discountPaise = Math.min(effect.lineDiscounts[index], line.subtotalPaise);
+    // Tax is rounded once per line, not per unit, so quantity can't amplify the rounding.
+    const taxPaise = extractTax(line.subtotalPaise - discountPaise, gstRateBps);
+    const depositPaise = (rule?.depositPaise ?? 0) * line.quantity;
+    return {
+      ...line,
+      discountPaise,
+      gstRateBps,
+      taxPaise,
+      depositPaise,
+      totalPaise: line.subtotalPaise - discountPaise + depositPaise,
+    };
+  });
+
+  let itemCount = 0;
+  let subtotalPaise = 0;
+  let discountPaise = 0;
+  let taxPaise = 0;
+  let depositPaise = 0;
+  let unpricedCount = 0;
+  const taxesByRate = new Map<number, TaxBreakdown>();
+
+  for (const line of lines) {
+    itemCount += line.quantity;
+    if (line.unitPricePaise === null) {
+      unpricedCount += 1;
+      continue;
+    }
+    subtotalPaise += line.subtotalPaise;
+    discountPaise += line.discountPaise;
+    taxPaise += line.taxPaise;
+    depositPaise += line.depositPaise;
+
+    const bucket = taxesByRate.get(line.gstRateBps) ?? {
+      gstRateBps: line.gstRateBps,
+      taxablePaise: 0,
+      taxPaise: 0,
+    };
+    bucket.taxablePaise += line.subtotalPaise - line.discountPaise - line.taxPaise;
+    bucket.taxPaise += line.taxPaise;
+    taxesByRate.set(line.gstRateBps, bucket);
+  }
+
+  // The free-delivery threshold looks at what is actually being paid for goods.
+  const netSubtotalPaise = subtotalPaise - discountPaise;
+  const qualifiesForFreeDelivery = netSubtotalPaise >= config.freeDeliveryThresholdPaise;
+  const deliveryWaived = subtotalPaise === 0 || qualifiesForFreeDelivery || effect.waivesDelivery;
+  const deliveryFeePaise = deliveryWaived ? 0 : config.deliveryFeePaise;
+  const freeDeliveryShortfallPaise = deliveryWaived
+    ? 0
+    : config.freeDeliveryThresholdPaise - netSubtotalPaise;
+
+  const exactTotalPaise = netSubtotalPaise + depositPaise + deliveryFeePaise;
+  const totalPaise = config.roundTotalToRupee
+    ? Math.round(exactTotalPaise / 100) * 100
+    : exactTotalPaise;
+
+  // A delivery waiver only counts as the coupon's doing when delivery would otherwise be charged.
+  const waivedByCoupon =
+    effect.waivesDelivery && subtotalPaise > 0 && !qualifiesForFreeDelivery;
+  const couponApplies = Boolean(coupon) && !effect.issue && (discountPaise > 0 || waivedByCoupon);
+
+  return {
+    lines,
+    itemCount,
+    subtotalPaise,
+    discountPaise,
+    taxPaise,
+    taxes: Array.from(taxesByRate.values()).sort((a, b) => a.gstRateBps - b.gstRateBps),
+    depositPaise,
+    deliveryFeePaise,
+    freeDeliveryShortfallPaise,
+    roundOffPaise: totalPaise - exactTotalPaise,
+    totalPaise,
+    unpricedCount,
+    coupon:
+      coupon && couponApplies
+        ? {
+            code: coupon.code,
+            label: describeCoupon(coupon),
+            discountPaise,
+            waivesDelivery: waivedByCoupon,
+          }
+        : null,
+    couponIssue:
+      coupon && !couponApplies
+        ? (effect.issue ?? `${coupon.code} doesn't lower this order's total.`)
+        : null,
+  };
+};
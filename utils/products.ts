@@ -1,3 +1,5 @@
+import { z } from 'zod';
+
 export type ProductImageVariant = {
   secure_url?: string;
   url?: string;
@@ -5,7 +7,9 @@ export type ProductImageVariant = {
   [key: string]: unknown;
 };
 
-export type Product = {
+// Every product shape the backend has been seen to send. Only used as input to
+// the schema below; the rest of the app works with CatalogProduct.
+export type RawProduct = {
   id?: string | number;
   productId?: string | number;
   product_id?: string | number;
@@ -22,72 +26,269 @@ export type Product = {
   description?: string;
   shortDescription?: string;
   photos?: Array<ProductImageVariant | null | undefined>;
+  category?: string | { name?: string; title?: string };
+  stock?: number;
+  inStock?: boolean;
+  maxPerOrder?: number;
+  maxOrderQuantity?: number;
+  createdAt?: string;
   [key: string]: unknown;
 };
 
-export const getProductKey = (
-  product: Product,
-  fallback?: number | string
-): string => {
-  return String(
-    product.id ??
-      product.productId ??
-      product.product_id ??
-      product.sku ??
-      fallback ??
-      `product-${Date.now()}`
-  );
+export type CatalogProduct = {
+  // Stable cart/favourite key; see deriveProductKey.
+  key: string;
+  id: string | null;
+  sku: string | null;
+  title: string | null;
+  price: number | null;
+  sellingPrice: number | null;
+  mrp: number | null;
+  description: string | null;
+  images: string[];
+  category: string | null;
+  // null when the backend does not report stock levels.
+  stock: number | null;
+  inStock: boolean;
+  // Most units one order may contain, when the product sets a limit.
+  maxPerOrder: number | null;
+  // ISO timestamp of when the product was listed, when the backend sends one.
+  createdAt: string | null;
 };
 
-export const getProductTitle = (product: Product, index = 0): string => {
-  return (
-    product.name ??
-    product.productName ??
-    product.title ??
-    `Product ${index + 1}`
-  );
+export type RejectedProduct = {
+  index: number;
+  issues: string[];
 };
 
-export const getProductPrice = (product: Product): number | null => {
-  if (typeof product.price === 'number') return product.price;
-  if (typeof product.sellingPrice === 'number') return product.sellingPrice;
-  if (typeof product.mrp === 'number') return product.mrp;
-  return null;
+export type CatalogParseResult = {
+  products: CatalogProduct[];
+  rejected: RejectedProduct[];
 };
 
-export const getProductDescription = (product: Product): string => {
-  return (
-    (typeof product.description === 'string' && product.description.trim()) ||
-    (typeof product.shortDescription === 'string' &&
-      product.shortDescription.trim()) ||
-    'No description provided.'
-  );
+// 32-bit FNV-1a; only needs to be stable across launches, not cryptographic.
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
 };
 
-export const getPrimaryProductImage = (product: Product): string | null => {
-  return product.imageUrl ?? product.image ?? product.thumbnail ?? null;
+// Backend ids win, then sku. Products with neither are keyed by a hash of the
+// fields that identify them on screen, so the same record always maps to the
+// same cart line no matter where or when it was rendered.
+export const deriveProductKey = (
+  product: Pick<CatalogProduct, 'id' | 'sku' | 'title' | 'price' | 'mrp'>
+): string => {
+  if (product.id) return product.id;
+  if (product.sku) return product.sku;
+  const fingerprint = [product.title ?? '', product.price ?? '', product.mrp ?? '']
+    .join('|')
+    .toLowerCase();
+  return `product-${hashString(fingerprint)}`;
 };
 
-export const getProductImages = (product: Product): string[] => {
-  const urls: string[] = [];
-
-  if (Array.isArray(product.photos)) {
-    for (const entry of product.photos) {
-      if (!entry) continue;
-      const candidate =
-        entry.secure_url ??
-        entry.url ??
-        (entry as { image_url?: string }).image_url;
-      if (candidate) {
-        urls.push(candidate);
-      }
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || null);
+
+const optionalId = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) => (value === null || value === undefined || value === '' ? null : String(value)));
+
+// Prices and stock counts occasionally arrive as numeric strings ("120.00").
+const optionalNumber = z
+  .union([z.number(), z.string().regex(/^\d+(\.\d+)?$/).transform(Number)])
+  .nullish()
+  .transform((value) => (typeof value === 'number' && Number.isFinite(value) ? value : null));
+
+const imageVariantSchema = z
+  .object({
+    secure_url: z.string().optional(),
+    url: z.string().optional(),
+    image_url: z.string().optional(),
+  })
+  .loose();
+
+const rawProductSchema = z
+  .object({
+    id: optionalId,
+    productId: optionalId,
+    product_id: optionalId,
+    sku: optionalText,
+    name: optionalText,
+    productName: optionalText,
+    title: optionalText,
+    price: optionalNumber,
+    sellingPrice: optionalNumber,
+    mrp: optionalNumber,
+    image: optionalText,
+    imageUrl: optionalText,
+    thumbnail: optionalText,
+    description: optionalText,
+    shortDescription: optionalText,
+    photos: z.array(imageVariantSchema.nullish()).nullish(),
+    category: z
+      .union([
+        z.string(),
+        z.object({ name: z.string().nullish(), title: z.string().nullish() }).loose(),
+      ])
+      .nullish()
+      .transform((value) =>
+        (typeof value === 'string' ? value : value?.name ?? value?.title)?.trim() || null
+      ),
+    stock: optionalNumber,
+    inStock: z.boolean().nullish(),
+    maxPerOrder: optionalNumber,
+    maxOrderQuantity: optionalNumber,
+    createdAt: optionalText,
+    // Lets an already-normalised CatalogProduct (e.g. from storage) parse again unchanged.
+    images: z.array(z.string()).nullish(),
+  })
+  .loose()
+  .refine(
+    (raw) =>
+      raw.id ?? raw.productId ?? raw.product_id ?? raw.sku ?? raw.name ?? raw.productName ?? raw.title,
+    { message: 'Product has neither an identifier nor a title' }
+  );
+
+export const catalogProductSchema = rawProductSchema.transform((raw): CatalogProduct => {
+  const images: string[] = [...(raw.images ?? [])];
+  for (const entry of raw.photos ?? []) {
+    const candidate = entry?.secure_url ?? entry?.url ?? entry?.image_url;
+    if (candidate) {
+      images.push(candidate);
+    }
+  }
+
+  const fallbackImage = raw.imageUrl ?? raw.image ?? raw.thumbnail;
+  if (images.length === 0 && fallbackImage) {
+    images.push(fallbackImage);
+  }
+
+  const product = {
+    id: raw.id ?? raw.productId ?? raw.product_id,
+    sku: raw.sku,
+    title: raw.name ?? raw.productName ?? raw.title,
+    price: raw.price ?? raw.sellingPrice ?? raw.mrp,
+    sellingPrice: raw.sellingPrice ?? raw.price,
+    mrp: raw.mrp,
+    description: raw.description ?? raw.shortDescription,
+    images,
+    category: raw.category,
+    stock: raw.stock,
+    inStock: raw.inStock ?? (raw.stock === null || raw.stock > 0),
+    maxPerOrder: raw.maxPerOrder ?? raw.maxOrderQuantity,
+    createdAt: raw.createdAt,
+  };
+
+  return { key: deriveProductKey(product), ...product };
+});
+
+// The list endpoints have returned a bare array, { data: [...] } and { items: [...] }.
+const catalogEnvelopeSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ data: z.array(z.unknown()) }).transform((envelope) => envelope.data),
+  z.object({ items: z.array(z.unknown()) }).transform((envelope) => envelope.items),
+]);
+
+export const parseCatalogProducts = (payload: unknown): CatalogParseResult => {
+  const envelope = catalogEnvelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    return { products: [], rejected: [] };
+  }
+
+  const products: CatalogProduct[] = [];
+  const rejected: RejectedProduct[] = [];
+
+  envelope.data.forEach((record, index) => {
+    const result = catalogProductSchema.safeParse(record);
+    if (result.success) {
+      products.push(result.data);
+    } else {
+      rejected.push({
+        index,
+        issues: result.error.issues.map((issue) =>
+          issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        ),
+      });
     }
+  });
+
+  return { products, rejected };
+};
+
+export const getProductKey = (product: CatalogProduct): string => product.key;
+
+// Normalises a product read back from storage, which may predate CatalogProduct
+// or carry a key from before deriveProductKey existed.
+export const toCatalogProduct = (value: unknown): CatalogProduct | null => {
+  const result = catalogProductSchema.safeParse(value);
+  return result.success ? result.data : null;
+};
+
+export const getProductTitle = (product: CatalogProduct, index = 0): string =>
+  product.title ?? `Product ${index + 1}`;
+
+export const getProductPrice = (product: CatalogProduct): number | null => product.price;
+
+// Whole-number percentage saved against MRP, or null when there is no markdown.
+export const getProductDiscountPercent = (product: CatalogProduct): number | null => {
+  const { mrp, sellingPrice } = product;
+  if (mrp === null || sellingPrice === null || mrp <= 0 || sellingPrice >= mrp) {
+    return null;
   }
+  return Math.round(((mrp - sellingPrice) / mrp) * 100);
+};
 
-  const fallback = getPrimaryProductImage(product);
-  if (urls.length === 0 && fallback) {
-    urls.push(fallback);
+// Rupees saved against MRP, or null when there is no markdown.
+export const getProductSavings = (product: CatalogProduct): number | null => {
+  const { mrp, sellingPrice } = product;
+  if (mrp === null || sellingPrice === null || sellingPrice >= mrp) {
+    return null;
   }
+  return mrp - sellingPrice;
+};
+
+// Applies when the product sets no per-order limit of its own.
+export const DEFAULT_MAX_PER_ORDER = 20;
 
-  return urls;
+// Stock at or below this shows an "Only N left" hint.
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type QuantityLimit = {
+  max: number;
+  reason: 'out_of_stock' | 'stock' | 'max_per_order';
+};
+
+// The most units of this product one cart may hold, and which rule sets it.
+export const getProductQuantityLimit = (product: CatalogProduct): QuantityLimit => {
+  if (!product.inStock || (product.stock !== null && product.stock <= 0)) {
+    return { max: 0, reason: 'out_of_stock' };
+  }
+  const perOrder = Math.max(1, Math.floor(product.maxPerOrder ?? DEFAULT_MAX_PER_ORDER));
+  if (product.stock !== null && product.stock < perOrder) {
+    return { max: Math.floor(product.stock), reason: 'stock' };
+  }
+  return { max: perOrder, reason: 'max_per_order' };
 };
+
+// "Only 3 left" when stock is running low, otherwise null.
+export const getLowStockHint = (product: CatalogProduct): string | null => {
+  if (product.stock === null || product.stock <= 0 || product.stock > LOW_STOCK_THRESHOLD) {
+    return null;
+  }
+  return `Only ${product.stock} left`;
+};
+
+export const getProductDescription = (product: CatalogProduct): string =>
+  product.description ?? 'No description provided.';
+
+export const getPrimaryProductImage = (product: CatalogProduct): string | null =>
+  product.images[0] ?? null;
+
+export const getProductImages = (product: CatalogProduct): string[] => product.images;
@@ -0,0 +1,79 @@
+import { formatPaise, toPaise } from './pricing';
+import { CatalogProduct, QuantityLimit, getProductPrice, getProductTitle } from './products';
+
+export type ReorderLine = {
+  productKey: string;
+  // How the line is matched against today's catalog.
+  productId: string | null;
+  sku: string | null;
+  name: string;
+  quantity: number;
+  // Rupees per unit on the original order, when known.
+  unitPrice: number | null;
+};
+
+export type ReorderOutcome =
+  // `quantity` is how many were added this time, not the cart line's total.
+  | { kind: 'added'; line: ReorderLine; product: CatalogProduct; quantity: number }
+  // Fewer than ordered last time because of stock or the per-order cap.
+  | {
+      kind: 'limited';
+      line: ReorderLine;
+      product: CatalogProduct;
+      quantity: number;
+      reason: QuantityLimit['reason'];
+    }
+  | { kind: 'out_of_stock'; line: ReorderLine; product: CatalogProduct }
+  | { kind: 'discontinued'; line: ReorderLine };
+
+export type ReorderSummary = {
+  addedCount: number;
+  title: string;
+  // One line per item that didn't go back in the cart exactly as before.
+  details: string[];
+};
+
+// Price the line was ordered at versus now, or null when unchanged or unknown.
+const describeReprice = (line: ReorderLine, product: CatalogProduct): string | null => {
+  const current = getProductPrice(product);
+  if (current === null || line.unitPrice === null) return null;
+  const before = toPaise(line.unitPrice);
+  const after = toPaise(current);
+  if (before === after || before === 0) return null;
+  return `${getProductTitle(product)} is now ${formatPaise(after)} (was ${formatPaise(before)}).`;
+};
+
+export const summarizeReorder = (outcomes: ReorderOutcome[]): ReorderSummary => {
+  const details: string[] = [];
+  let addedCount = 0;
+
+  for (const outcome of outcomes) {
+    switch (outcome.kind) {
+      case 'discontinued':
+        details.push(`${outcome.line.name} is no longer sold.`);
+        continue;
+      case 'out_of_stock':
+        details.push(`${getProductTitle(outcome.product)} is out of stock.`);
+        continue;
+      case 'limited':
+        details.push(
+          outcome.quantity === 0
+            ? `${getProductTitle(outcome.product)} is already at its limit in your cart.`
+            : `Only ${outcome.quantity} of ${getProductTitle(outcome.product)} could be added.`
+        );
+        break;
+    }
+    if (outcome.quantity > 0) addedCount += 1;
+    const reprice = describeReprice(outcome.line, outcome.product);
+    if (reprice) details.push(reprice);
+  }
+
+  const title =
+    addedCount === 0
+      ? 'Nothing was added'
+      : addedCount === outcomes.length
+        ? 'Added to cart'
+        : `Added ${addedCount} of ${outcomes.length} item${outcomes.length > 1 ? 's' : ''}`;
+
+  return { addedCount, title, details };
+};
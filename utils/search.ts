@@ -0,0 +1,109 @@
+import {
+  CatalogProduct,
+  getProductDescription,
+  getProductTitle,
+} from './products';
+
+// Half-open [start, end) character range into the searched text.
+export type MatchRange = [number, number];
+
+export type TextMatch = {
+  score: number;
+  ranges: MatchRange[];
+};
+
+export type ProductSearchResult = {
+  product: CatalogProduct;
+  titleRanges: MatchRange[];
+};
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+// Every term appearing verbatim scores well above a scattered subsequence
+// match, so "ro kit" ranks "Universal RO Filter Kit" above "Roller Kitchen".
+export const matchText = (query: string, text: string): TextMatch | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return { score: 0, ranges: [] };
+  }
+  const haystack = text.toLowerCase();
+
+  const terms = needle.split(/\s+/);
+  const termRanges: MatchRange[] = [];
+  let termScore = 0;
+  for (const term of terms) {
+    const at = haystack.indexOf(term);
+    if (at === -1) break;
+    termRanges.push([at, at + term.length]);
+    termScore += at === 0 || /\W/.test(haystack[at - 1]) ? 12 : 10;
+  }
+  if (termRanges.length === terms.length) {
+    return { score: termScore / terms.length, ranges: mergeRanges(termRanges) };
+  }
+
+  // Fuzzy fallback: the query's characters in order, tolerating small gaps
+  // such as "dispensr" or "watercan".
+  const compact = needle.replace(/\s+/g, '');
+  const fuzzyRanges: MatchRange[] = [];
+  let matched = 0;
+  for (let i = 0; i < haystack.length && matched < compact.length; i += 1) {
+    if (haystack[i] !== compact[matched]) continue;
+    const last = fuzzyRanges[fuzzyRanges.length - 1];
+    if (last && last[1] === i) {
+      last[1] = i + 1;
+    } else {
+      fuzzyRanges.push([i, i + 1]);
+    }
+    matched += 1;
+  }
+
+  if (matched < compact.length || fuzzyRanges.length > Math.ceil(compact.length / 3)) {
+    return null;
+  }
+  return { score: 5 / fuzzyRanges.length, ranges: fuzzyRanges };
+};
+
+export const searchCatalog = (
+  products: CatalogProduct[],
+  query: string
+): ProductSearchResult[] => {
+  return products
+    .map((product, index) => {
+      const titleMatch = matchText(query, getProductTitle(product, index));
+      const descriptionMatch = product.description
+        ? matchText(query, getProductDescription(product))
+        : null;
+      const score = Math.max((titleMatch?.score ?? 0) * 2, descriptionMatch?.score ?? 0);
+      return {
+        product,
+        titleRanges: titleMatch?.ranges ?? [],
+        score,
+        matched: Boolean(titleMatch || descriptionMatch),
+      };
+    })
+    .filter((result) => result.matched)
+    .sort((a, b) => b.score - a.score)
+    .map(({ product, titleRanges }) => ({ product, titleRanges }));
+};
+
+// Server results keep the server's ranking; we only work out what to highlight.
+export const highlightResults = (
+  products: CatalogProduct[],
+  query: string
+): ProductSearchResult[] =>
+  products.map((product, index) => ({
+    product,
+    titleRanges: matchText(query, getProductTitle(product, index))?.ranges ?? [],
+  }));
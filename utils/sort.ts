@@ -0,0 +1,76 @@
+import {
+  CatalogProduct,
+  getProductDiscountPercent,
+  getProductPrice,
+  getProductTitle,
+} from './products';
+
+export type SortKey =
+  | 'featured'
+  | 'price-asc'
+  | 'price-desc'
+  | 'newest'
+  | 'name-asc'
+  | 'discount-desc';
+
+export type SortOption = {
+  key: SortKey;
+  label: string;
+  // Value sent as ?sort= to paginated endpoints; null keeps the server's order.
+  serverParam: string | null;
+};
+
+export const SORT_OPTIONS: SortOption[] = [
+  { key: 'featured', label: 'Featured', serverParam: null },
+  { key: 'price-asc', label: 'Price: low to high', serverParam: 'price_asc' },
+  { key: 'price-desc', label: 'Price: high to low', serverParam: 'price_desc' },
+  { key: 'newest', label: 'Newest first', serverParam: 'newest' },
+  { key: 'name-asc', label: 'Name: A–Z', serverParam: 'name_asc' },
+  { key: 'discount-desc', label: 'Biggest discount', serverParam: 'discount_desc' },
+];
+
+export const DEFAULT_SORT: SortKey = 'featured';
+
+export const getSortOption = (key: SortKey): SortOption =>
+  SORT_OPTIONS.find((option) => option.key === key) ?? SORT_OPTIONS[0];
+
+// Products missing the sorted-on value sink to the end in every direction.
+const compareNullable = (a: number | null, b: number | null, direction: 1 | -1) => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a - b) * direction;
+};
+
+const toTimestamp = (value: string | null) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+type Comparator = (a: CatalogProduct, b: CatalogProduct) => number;
+
+const COMPARATORS: Record<Exclude<SortKey, 'featured'>, Comparator> = {
+  'price-asc': (a, b) => compareNullable(getProductPrice(a), getProductPrice(b), 1),
+  'price-desc': (a, b) => compareNullable(getProductPrice(a), getProductPrice(b), -1),
+  newest: (a, b) => compareNullable(toTimestamp(a.createdAt), toTimestamp(b.createdAt), -1),
+  'name-asc': (a, b) =>
+    getProductTitle(a).localeCompare(getProductTitle(b), undefined, { sensitivity: 'base' }),
+  'discount-desc': (a, b) =>
+    compareNullable(getProductDiscountPercent(a), getProductDiscountPercent(b), -1),
+};
+
+// Array#sort is stable, so ties keep the incoming (server or relevance) order.
+export const sortBy = <T>(
+  items: T[],
+  key: SortKey,
+  getProduct: (item: T) => CatalogProduct
+): T[] => {
+  if (key === 'featured') {
+    return items;
+  }
+  const compare = COMPARATORS[key];
+  return [...items].sort((a, b) => compare(getProduct(a), getProduct(b)));
+};
+
+export const sortProducts = (products: CatalogProduct[], key: SortKey) =>
+  sortBy(products, key, (product) => product);
@@ -0,0 +1,143 @@
+import { toDateKey } from './checkout';
+import { OrderStatusTone } from './orders';
+
+// 0 is Sunday, matching Date.getDay().
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type SubscriptionFrequency =
+  | { kind: 'daily' }
+  | { kind: 'alternate_days' }
+  // On the start date's weekday.
+  | { kind: 'weekly' }
+  | { kind: 'custom'; weekdays: Weekday[] };
+
+export type FrequencyKind = SubscriptionFrequency['kind'];
+
+// 'unknown' covers statuses this version of the app doesn't recognise. Such a
+// subscription is shown but can't be paused, skipped or cancelled from here.
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled' | 'unknown';
+
+export const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  unknown: 'Unavailable',
+};
+
+export const SUBSCRIPTION_STATUS_TONES: Record<SubscriptionStatus, OrderStatusTone> = {
+  active: 'active',
+  paused: 'pending',
+  cancelled: 'neutral',
+  unknown: 'neutral',
+};
+
+export const isManageableSubscriptionStatus = (status: SubscriptionStatus): boolean =>
+  status === 'active' || status === 'paused';
+
+export const FREQUENCY_OPTIONS: { kind: FrequencyKind; label: string }[] = [
+  { kind: 'daily', label: 'Daily' },
+  { kind: 'alternate_days', label: 'Alternate days' },
+  { kind: 'weekly', label: 'Weekly' },
+  { kind: 'custom', label: 'Pick days' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+export const isWeekday = (value: number): value is Weekday =>
+  Number.isInteger(value) && value >= 0 && value <= 6;
+
+// Dates here are local calendar days as YYYY-MM-DD, like delivery slots.
+export const fromDateKey = (key: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const formatDateKey = (key: string): string => {
+  const date = fromDateKey(key);
+  if (!date) return key;
+  return date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+export const describeFrequency = (frequency: SubscriptionFrequency, startDate: string): string => {
+  switch (frequency.kind) {
+    case 'daily':
+      return 'Every day';
+    case 'alternate_days':
+      return 'Every other day';
+    case 'weekly': {
+      const start = fromDateKey(startDate);
+      return start ? `Every ${WEEKDAY_NAMES[start.getDay()]}` : 'Every week';
+    }
+    case 'custom':
+      return [...frequency.weekdays]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(', ');
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: Date, to: Date) =>
+  // Rounded so a daylight-saving shift can't push a day into the wrong bucket.
+  Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const isDeliveryDay = (frequency: SubscriptionFrequency, start: Date, day: Date) => {
+  switch (frequency.kind) {
+    case 'daily':
+      return true;
+    case 'alternate_days':
+      return daysBetween(start, day) % 2 === 0;
+    case 'weekly':
+      return day.getDay() === start.getDay();
+    case 'custom':
+      return frequency.weekdays.includes(day.getDay() as Weekday);
+  }
+};
+
+// How far ahead to look; a custom schedule with no days would otherwise loop forever.
+const LOOKAHEAD_DAYS = 60;
+
+// The next `count` delivery dates on or after `from`, leaving out skipped ones.
+// The server's nextDeliveryDate is authoritative; this previews a schedule
+// before it exists and fills in the dates after the next one.
+export const getUpcomingDeliveries = (
+  frequency: SubscriptionFrequency,
+  startDate: string,
+  { from = new Date(), count = 3, skipped = [] }: { from?: Date; count?: number; skipped?: string[] } = {}
+): string[] => {
+  const start = fromDateKey(startDate);
+  if (!start) return [];
+  const today = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const first = start.getTime() > today.getTime() ? start : today;
+
+  const dates: string[] = [];
+  for (let offset = 0; offset < LOOKAHEAD_DAYS && dates.length < count; offset += 1) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + offset);
+    const key = toDateKey(day);
+    if (isDeliveryDay(frequency, start, day) && !skipped.includes(key)) {
+      dates.push(key);
+    }
+  }
+  return dates;
+};
+
+const START_DATE_CHOICES = 7;
+
+// Subscriptions start tomorrow at the earliest, so the first delivery can be planned.
+export const getStartDateOptions = (now = new Date()): string[] =>
+  Array.from({ length: START_DATE_CHOICES }, (_, index) =>
+    toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() + index + 1))
+  );